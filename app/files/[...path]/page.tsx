@@ -0,0 +1,34 @@
+import React from "react";
+import FileViewer from "@/components/file-viewer";
+
+type Props = {
+  params: Promise<{
+    path?: string[];
+  }>;
+};
+
+/**
+ * Repository files that aren't notes, e.g. a PDF or data file linked from
+ * a note. Notes themselves live under `/notes/...`.
+ *
+ * URL examples:
+ * - /files/week2/slides.pdf   -> path = ["week2", "slides.pdf"]
+ */
+export default async function FilesRoute({ params }: Props) {
+  const { path } = await params;
+
+  if (!path || path.length === 0) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-semibold">No file selected</h1>
+        <p className="mt-2 text-muted-foreground">Files open from links in your notes.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <FileViewer path={path.join("/")} />
+    </div>
+  );
+}
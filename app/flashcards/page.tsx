@@ -4,8 +4,11 @@ import { useEffect, useState, useCallback, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Play, Shuffle, BookOpen, Zap, TrendingUp, RotateCcw } from "lucide-react";
 import { useRepos } from "@/components/repo";
+import { CopyLinkButton } from "@/components/share";
 import { fetchAllFlashcardDecks, extractFlashcardPaths } from "@/lib/flashcard-parser";
 import { loadAllStats } from "@/lib/spaced-repetition";
+import { markChangesSeen } from "@/lib/change-feed";
+import { getToken } from "@/lib/github-tokens";
 import type { FlashcardDeck } from "@/lib/flashcard-types";
 import { BLINDS } from "@/lib/flashcard-types";
 import "@/components/flashcards/flashcard-styles.css";
@@ -58,9 +61,9 @@ function FlashcardsHubInner() {
     setError(null);
 
     try {
-      const { fetchRepoTree } = await import("@/lib/utils");
-      const token = localStorage.getItem("docurepo:token") ?? undefined;
-      const tree = await fetchRepoTree(activeRepo.owner, activeRepo.name, { token });
+      const { loadRepoTree } = await import("@/lib/content-cache");
+      const token = getToken(activeRepo.owner, activeRepo.name, activeRepo.host);
+      const tree = await loadRepoTree(activeRepo, { ref: activeRepo.ref, token });
 
       const paths = extractFlashcardPaths(tree, folderPath);
       console.log("[Flashcards] folderPath:", JSON.stringify(folderPath));
@@ -77,13 +80,14 @@ function FlashcardsHubInner() {
       }
 
       const fetched = await fetchAllFlashcardDecks(
-        activeRepo.owner,
-        activeRepo.name,
+        activeRepo,
         paths,
-        { token },
+        { ref: activeRepo.ref, token },
       );
       console.log("[Flashcards] fetched decks:", fetched.length);
       setDecks(fetched);
+      // Opening the folder counts as seeing its new and updated decks
+      markChangesSeen(activeRepo.id, paths);
       if (fetched.length === 0 && paths.length > 0) {
         setError(`Found ${paths.length} path(s) but all failed to load. Check console for details.`);
       }
@@ -189,6 +193,7 @@ function FlashcardsHubInner() {
               <span className="fc-hub-path"> · {folderPath}</span>
             )}
           </p>
+          <CopyLinkButton className="-ml-3 mt-1" />
         </div>
 
         {/* Blind overview strip */}
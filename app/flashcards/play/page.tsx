@@ -7,6 +7,7 @@ import { useRepos } from "@/components/repo";
 import { FlashcardDeckPlayer, type DeckResult } from "@/components/flashcards/FlashcardDeck";
 import { fetchAllFlashcardDecks, extractFlashcardPaths, fetchFlashcardDeck } from "@/lib/flashcard-parser";
 import { weightedSelect, sortForUnitMode, sessionSummary } from "@/lib/spaced-repetition";
+import { getToken } from "@/lib/github-tokens";
 import { BLINDS, RATING_COLORS, RATING_LABELS, type CardRating, type Flashcard, type FlashcardDeck } from "@/lib/flashcard-types";
 import "@/components/flashcards/flashcard-styles.css";
 
@@ -50,29 +51,29 @@ function PlayPageInner() {
     }
 
     try {
-      const token = localStorage.getItem("docurepo:token") ?? undefined;
+      const token = getToken(activeRepo.owner, activeRepo.name, activeRepo.host);
 
       if (mode === "unit") {
         // Find the deck path
-        const { fetchRepoTree } = await import("@/lib/utils");
-        const tree = await fetchRepoTree(activeRepo.owner, activeRepo.name, { token });
+        const { loadRepoTree } = await import("@/lib/content-cache");
+        const tree = await loadRepoTree(activeRepo, { ref: activeRepo.ref, token });
         const paths = extractFlashcardPaths(tree, folderPath);
         const path = paths.find((p) => p.includes(deckId) || p.replace(/\.[^/.]+$/, "").endsWith(deckId));
 
         if (!path) throw new Error(`Deck "${deckId}" not found in repository.`);
 
-        const loadedDeck = await fetchFlashcardDeck(activeRepo.owner, activeRepo.name, path, { token });
+        const loadedDeck = await fetchFlashcardDeck(activeRepo, path, { ref: activeRepo.ref, token });
         setDeck(loadedDeck);
         setUnitCards(sortForUnitMode(loadedDeck.cards));
         setPhase("playing");
       } else {
         // Random mode: load all decks
-        const { fetchRepoTree } = await import("@/lib/utils");
-        const tree = await fetchRepoTree(activeRepo.owner, activeRepo.name, { token });
+        const { loadRepoTree } = await import("@/lib/content-cache");
+        const tree = await loadRepoTree(activeRepo, { ref: activeRepo.ref, token });
         const paths = extractFlashcardPaths(tree, folderPath);
         if (paths.length === 0) throw new Error("No flashcard decks found.");
 
-        const decks = await fetchAllFlashcardDecks(activeRepo.owner, activeRepo.name, paths, { token });
+        const decks = await fetchAllFlashcardDecks(activeRepo, paths, { ref: activeRepo.ref, token });
         const combined = decks.flatMap((d) => d.cards);
         setAllCards(combined);
 
@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import { NoteGraph } from "@/components/graph";
+
+/** Graph of the active repo's notes and the links between them. */
+export default function GraphRoute() {
+  return (
+    <Suspense fallback={<div className="p-6 text-sm text-muted-foreground">Loading graph…</div>}>
+      <NoteGraph />
+    </Suspense>
+  );
+}
@@ -11,6 +11,7 @@ import {
 } from "@/components/ui/sidebar";
 import { ThemeProvider } from "@/components/theme/theme-provider";
 import { RepoProvider } from "@/components/repo/repo-provider";
+import { OfflineProvider } from "@/components/offline";
 import { CommandPaletteProvider } from "@/components/command-palette";
 import { SearchModal } from "@/components/search";
 import { ShortcutsModal } from "@/components/shortcuts";
@@ -47,23 +48,25 @@ export default function RootLayout({ children }: { children: ReactNode }) {
       >
         <ThemeProvider>
           <RepoProvider>
-            <CommandPaletteProvider>
-              {/* Search Modal - can be opened from command palette */}
-              <SearchModal />
+            <OfflineProvider>
+              <CommandPaletteProvider>
+                {/* Search Modal - can be opened from command palette */}
+                <SearchModal />
               
-              {/* Keyboard Shortcuts Modal */}
-              <ShortcutsModal />
+                {/* Keyboard Shortcuts Modal */}
+                <ShortcutsModal />
               
-              {/* Client startup modal rendered on every page load (blocks interaction) */}
-              <StartupModal />
+                {/* Client startup modal rendered on every page load (blocks interaction) */}
+                <StartupModal />
 
-              <SidebarProvider>
-                <AppSidebarClient />
-                <SidebarInset>
-                  <div className="flex flex-1 flex-col">{children}</div>
-                </SidebarInset>
-              </SidebarProvider>
-            </CommandPaletteProvider>
+                <SidebarProvider>
+                  <AppSidebarClient />
+                  <SidebarInset>
+                    <div className="flex flex-1 flex-col">{children}</div>
+                  </SidebarInset>
+                </SidebarProvider>
+              </CommandPaletteProvider>
+            </OfflineProvider>
           </RepoProvider>
         </ThemeProvider>
       </body>
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+
+/**
+ * Web app manifest — makes DocuRepo installable so it can run offline
+ * alongside the service worker in `public/sw.js`.
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "DocuRepo",
+    short_name: "DocuRepo",
+    description: "A platform for sharing and collaborating on study materials.",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#2b2622",
+    theme_color: "#2b2622",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/favicon.ico", sizes: "48x48", type: "image/x-icon" },
+    ],
+  };
+}
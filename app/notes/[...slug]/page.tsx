@@ -1,5 +1,7 @@
 import React from "react";
 import MarkdownViewer from "@/components/markdown-viewer";
+import { CopyLinkButton } from "@/components/share";
+import { LocalGraphButton } from "@/components/graph";
 
 type Props = {
   params: Promise<{
@@ -43,6 +45,10 @@ export default async function NotesRoute({ params }: Props) {
   // Render the client MarkdownViewer which will fetch the raw file from GitHub.
   return (
     <div className="p-6">
+      <div className="flex justify-end -mt-2 mb-2">
+        <LocalGraphButton path={filePath} />
+        <CopyLinkButton />
+      </div>
       <MarkdownViewer slug={filePath} />
     </div>
   );
@@ -2,11 +2,35 @@
 
 import { useEffect, useState } from "react";
 import { useTheme, ThemeSelector } from "@/components/theme";
-import { useRepos } from "@/components/repo";
+import { useRepos, useRepoChanges, RepoConfigStatus } from "@/components/repo";
+import { TokenSettings } from "@/components/settings";
 import { Button } from "@/components/ui/button";
-import { FileText, Clock, Search } from "lucide-react";
+import { FileText, Clock, Search, FilePlus, FilePen, FileX } from "lucide-react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { clearChanges, type ChangeKind, type TreeChange } from "@/lib/change-feed";
+import { repoLabel } from "@/lib/sources";
+import { safeDecode } from "@/lib/utils";
+
+const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: "New",
+  modified: "Updated",
+  deleted: "Deleted",
+};
+
+const CHANGE_ICONS: Record<ChangeKind, typeof FileText> = {
+  added: FilePlus,
+  modified: FilePen,
+  deleted: FileX,
+};
+
+/** Where a changed item opens: the note, or the folder of a flashcard deck. */
+function changeHref(change: TreeChange): string | null {
+  if (change.kind === "deleted") return null;
+  if (change.path.endsWith(".md")) return `/notes/${change.path}`;
+  const folder = change.path.substring(0, change.path.lastIndexOf("/"));
+  return `/flashcards?path=${encodeURIComponent(folder)}`;
+}
 
 interface RecentNote {
   path: string;
@@ -18,6 +42,7 @@ interface RecentNote {
 export default function DashboardPage() {
   const { currentTheme } = useTheme();
   const { activeRepo } = useRepos();
+  const changes = useRepoChanges();
   const router = useRouter();
   const [recentNotes, setRecentNotes] = useState<RecentNote[]>([]);
   const [mounted, setMounted] = useState(false);
@@ -67,7 +92,7 @@ export default function DashboardPage() {
             </h1>
             <p className="text-sm text-muted-foreground mt-0.5 truncate">
               {activeRepo ? (
-                <>{activeRepo.owner}<span className="mx-1 opacity-40">/</span>{activeRepo.name}</>
+                <>{activeRepo.owner}<span className="mx-1 opacity-40">/</span>{repoLabel(activeRepo)}</>
               ) : (
                 "No repository configured"
               )}
@@ -150,6 +175,77 @@ export default function DashboardPage() {
 
         <div className="h-px bg-border/50 mb-10" />
 
+        {/* ── GitHub Access ─────────────────────────────────── */}
+        <section id="github-access" className="mb-10 max-w-xl">
+          <TokenSettings />
+        </section>
+
+        <div className="h-px bg-border/50 mb-10" />
+
+        {/* ── New & Updated ─────────────────────────────────── */}
+        {activeRepo && changes.length > 0 && (
+          <>
+            <section className="mb-10">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+                  New &amp; updated
+                </h2>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs h-7"
+                  onClick={() => clearChanges(activeRepo.id)}
+                >
+                  Mark all as seen
+                </Button>
+              </div>
+              <div className="space-y-0.5">
+                {changes.slice(0, 10).map((change) => {
+                  const Icon = CHANGE_ICONS[change.kind];
+                  const href = changeHref(change);
+                  const slash = change.path.lastIndexOf("/");
+                  const folder = slash > 0 ? change.path.substring(0, slash) : "";
+                  const title = change.path.substring(slash + 1).replace(/\.(md|ya?ml)$/i, "");
+                  const row = (
+                    <>
+                      <Icon className="w-3.5 h-3.5 text-muted-foreground/60 group-hover:text-foreground/70 flex-shrink-0" />
+                      <span className="text-sm truncate flex-1">
+                        <span className={change.kind === "deleted" ? "line-through text-muted-foreground" : ""}>
+                          {title}
+                        </span>
+                        {folder && (
+                          <span className="ml-2 text-xs text-muted-foreground/60">{folder}</span>
+                        )}
+                      </span>
+                      <span className="text-[11px] text-muted-foreground/60 flex-shrink-0">
+                        {CHANGE_LABELS[change.kind]}
+                      </span>
+                    </>
+                  );
+                  const rowClass = "flex items-center gap-3 py-2.5 px-3 -mx-3 rounded-md transition-colors group";
+
+                  return href ? (
+                    <Link key={change.path} href={href} className={`${rowClass} hover:bg-accent/60`}>
+                      {row}
+                    </Link>
+                  ) : (
+                    <div key={change.path} className={rowClass}>
+                      {row}
+                    </div>
+                  );
+                })}
+              </div>
+              {changes.length > 10 && (
+                <p className="text-xs text-muted-foreground/60 mt-2">
+                  and {changes.length - 10} more
+                </p>
+              )}
+            </section>
+
+            <div className="h-px bg-border/50 mb-10" />
+          </>
+        )}
+
         {/* ── Recent Notes + Overview ───────────────────────── */}
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
           <section className="lg:col-span-3">
@@ -159,7 +255,8 @@ export default function DashboardPage() {
             {recentNotes.length > 0 ? (
               <div className="space-y-0.5">
                 {recentNotes.slice(0, 7).map((note, index) => {
-                  const displayTitle = decodeURIComponent(note.title).replace(/%20/g, ' ');
+                  // Older entries stored URL-encoded file names; frontmatter titles may contain "%"
+                  const displayTitle = safeDecode(note.title);
                   return (
                     <Link
                       key={index}
@@ -205,6 +302,7 @@ export default function DashboardPage() {
                   <div className="text-xs text-muted-foreground mt-0.5">Folders</div>
                 </div>
               </div>
+              <RepoConfigStatus className="mt-4" />
             </aside>
           )}
         </div>
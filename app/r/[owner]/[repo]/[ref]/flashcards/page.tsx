@@ -0,0 +1,33 @@
+import React from "react";
+import { SharedRepoLink } from "@/components/share";
+
+type Props = {
+  params: Promise<{
+    owner: string;
+    repo: string;
+    ref: string;
+  }>;
+  searchParams: Promise<{
+    path?: string;
+    host?: string;
+    provider?: string;
+    root?: string;
+  }>;
+};
+
+/**
+ * Shareable flashcards route: like `/flashcards?path=...`, but with the
+ * repository in the URL (see the shared notes route).
+ */
+export default async function SharedFlashcardsRoute({ params, searchParams }: Props) {
+  const { owner, repo, ref } = await params;
+  const { path = "", ...search } = await searchParams;
+
+  return (
+    <SharedRepoLink
+      params={{ owner, repo, ref }}
+      search={search}
+      target={{ kind: "flashcards", folder: path }}
+    />
+  );
+}
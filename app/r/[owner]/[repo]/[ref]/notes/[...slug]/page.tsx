@@ -0,0 +1,43 @@
+import React from "react";
+import { SharedRepoLink } from "@/components/share";
+
+type Props = {
+  params: Promise<{
+    owner: string;
+    repo: string;
+    ref: string;
+    slug: string[];
+  }>;
+  searchParams: Promise<{
+    host?: string;
+    provider?: string;
+    root?: string;
+  }>;
+};
+
+/**
+ * Shareable note route.
+ *
+ * Unlike `/notes/...`, the repository is part of the URL, so the link opens
+ * the same note in any browser. The repo is added (after asking) or
+ * activated, then the regular notes route takes over.
+ *
+ * URL examples:
+ * - /r/owner/notes/main/notes/docs/intro.md
+ * - /r/group%2Fsub/notes/main/notes/README.md?host=gitlab.com
+ */
+export default async function SharedNoteRoute({ params, searchParams }: Props) {
+  const { owner, repo, ref, slug } = await params;
+  const search = await searchParams;
+
+  // Reconstruct the repository-relative path from the slug segments.
+  const filePath = slug.join("/");
+
+  return (
+    <SharedRepoLink
+      params={{ owner, repo, ref }}
+      search={search}
+      target={{ kind: "note", path: filePath }}
+    />
+  );
+}
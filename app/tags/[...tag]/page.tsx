@@ -0,0 +1,18 @@
+import { TagNotes } from "@/components/tags";
+import { safeDecode } from "@/lib/utils";
+
+type Props = {
+  params: Promise<{
+    tag: string[];
+  }>;
+};
+
+/**
+ * Notes with a tag. Nested tags keep their slashes in the URL:
+ * - /tags/exam          -> #exam
+ * - /tags/course/week2  -> #course/week2 (and notes tagged #course/week2/…)
+ */
+export default async function TagRoute({ params }: Props) {
+  const { tag } = await params;
+  return <TagNotes tag={tag.map(safeDecode).join("/")} />;
+}
@@ -0,0 +1,6 @@
+import { TagIndex } from "@/components/tags";
+
+/** Every tag in the active repo, from frontmatter and inline #tags. */
+export default function TagsRoute() {
+  return <TagIndex />;
+}
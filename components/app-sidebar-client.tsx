@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { ChevronRight, Folder, FileText, PanelLeftClose, PanelLeft, BookOpen, Settings, Play } from "lucide-react";
+import { ArrowDownUp, ChevronRight, Hash, Folder, FileText, Network, PanelLeftClose, PanelLeft, BookOpen, Settings, Play, CloudCheck, CloudDownload, CloudOff, Loader2, Wifi, WifiOff } from "lucide-react";
 import { usePathname, useRouter } from "next/navigation";
 import Link from "next/link";
 
@@ -21,11 +21,35 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import type { NavItem as UtilsNavItem, GitTreeEntry } from "@/lib/utils";
-import { fetchRepoTree, buildSidebar } from "@/lib/utils";
+import { buildSidebar } from "@/lib/utils";
+import {
+  DEFAULT_SIDEBAR_SORT,
+  SIDEBAR_SORT_MODES,
+  sortSidebar,
+  type SidebarSort,
+  type SidebarSortMode,
+} from "@/lib/sidebar-sort";
+import { getContentSource, getStoredRepoLocation } from "@/lib/sources";
 import { Button } from "@/components/ui/button";
 import { RepoSwitcher } from "@/components/repo/repo-switcher";
 import { useRepos } from "@/components/repo/repo-provider";
+import { useRepoChanges } from "@/components/repo/use-repo-changes";
+import { useNoteMetadata } from "@/components/repo/use-note-metadata";
+import { applyNoteTitles } from "@/lib/note-metadata";
+import { RepoConfigStatus } from "@/components/repo/repo-config-status";
+import { useOffline } from "@/components/offline";
+import { RateLimitStatus } from "@/components/settings";
 
 export type NavItem = UtilsNavItem;
 
@@ -82,7 +106,89 @@ function SidebarSkeleton() {
 
 /** Check if an item is the flashcards root folder */
 function isFlashcardsFolder(item: NavItem): boolean {
-  return item.title.toLowerCase() === "flashcards" && !!item.items;
+  // Sidebars saved before `.docurepo.yml` support have no isFlashcards flag
+  return item.isFlashcards ?? (item.title.toLowerCase() === "flashcards" && !!item.items);
+}
+
+/** "Make available offline" toggle shown on folder rows. */
+function OfflineFolderToggle({ path }: { path: string }) {
+  const { activeRepo } = useRepos();
+  const { offlineFolders, folderSync, toggleFolderOffline } = useOffline();
+  const enabled = offlineFolders.includes(path);
+  const sync = folderSync[path];
+
+  // Local folders and archives are always available offline
+  if (activeRepo?.provider === "local") return null;
+
+  let icon = <CloudDownload size={13} />;
+  let label = "Make available offline";
+  if (sync?.status === "syncing") {
+    icon = <Loader2 size={13} className="animate-spin" />;
+    label = sync.total > 0 ? `Downloading ${sync.done}/${sync.total}…` : "Downloading…";
+  } else if (sync?.status === "error") {
+    icon = <CloudOff size={13} />;
+    label = `Offline download failed: ${sync.error}`;
+  } else if (enabled) {
+    icon = <CloudCheck size={13} />;
+    label = "Available offline (click to remove)";
+  }
+
+  return (
+    <button
+      type="button"
+      className={`sidebar-offline-toggle ${enabled ? "enabled" : ""}`}
+      onClick={() => toggleFolderOffline(path)}
+      disabled={sync?.status === "syncing"}
+      title={label}
+      aria-label={label}
+      aria-pressed={enabled}
+    >
+      {icon}
+    </button>
+  );
+}
+
+/**
+ * "What's new" marker: a New/Updated badge on a changed note, or a dot on a
+ * folder containing changes. Cleared once the note or deck is opened.
+ */
+function ChangeBadge({ path, folder = false }: { path: string; folder?: boolean }) {
+  const changes = useRepoChanges();
+
+  if (folder) {
+    const prefix = `${path}/`;
+    const hasChanges = changes.some(
+      (change) => change.kind !== "deleted" && change.path.startsWith(prefix),
+    );
+    return hasChanges ? (
+      <span className="sidebar-change-dot" title="Contains new or updated items" />
+    ) : null;
+  }
+
+  const change = changes.find((c) => c.path === path && c.kind !== "deleted");
+  if (!change) return null;
+  return (
+    <span className={`sidebar-change-badge ${change.kind}`}>
+      {change.kind === "added" ? "New" : "Updated"}
+    </span>
+  );
+}
+
+/** Connectivity and offline-availability summary for the sidebar footer. */
+function OfflineStatus() {
+  const { isOnline, offlineFolders } = useOffline();
+
+  return (
+    <div className={`sidebar-offline-status ${isOnline ? "" : "offline"}`}>
+      {isOnline ? <Wifi size={13} /> : <WifiOff size={13} />}
+      <span>{isOnline ? "Online" : "Offline"}</span>
+      {offlineFolders.length > 0 && (
+        <span className="sidebar-offline-count">
+          · {offlineFolders.length} folder{offlineFolders.length !== 1 ? "s" : ""} saved offline
+        </span>
+      )}
+    </div>
+  );
 }
 
 /** Render nested items recursively with collapsible dropdowns. */
@@ -113,6 +219,7 @@ function renderNestedItems(
           >
             <Play className="sidebar-icon sidebar-play-icon" size={15} />
             <span className="sidebar-item-text">Flashcards</span>
+            <ChangeBadge path={item.url} folder />
           </Link>
         </SidebarMenuItem>
       );
@@ -130,9 +237,11 @@ function renderNestedItems(
               <button className="sidebar-folder-trigger">
                 <Folder className="sidebar-icon" size={16} />
                 <span className="sidebar-item-text">{item.title}</span>
+                <ChangeBadge path={item.url} folder />
                 <ChevronRight className="sidebar-chevron" size={14} />
               </button>
             </CollapsibleTrigger>
+            <OfflineFolderToggle path={item.url} />
             <CollapsibleContent>
               <SidebarMenuSub className={depth === 0 ? "sidebar-sub-root" : "sidebar-sub-nested"}>
                 {renderNestedItems(item.items, pathname, depth + 1, router)}
@@ -153,6 +262,7 @@ function renderNestedItems(
           >
             <FileText className="sidebar-icon" size={16} />
             <span className="sidebar-item-text">{item.title}</span>
+            <ChangeBadge path={item.url} />
           </Link>
         ) : (
           <div className="sidebar-folder-label">
@@ -182,6 +292,63 @@ function SidebarCollapseButton() {
   );
 }
 
+/** Per-repo sidebar sort: natural name, frontmatter or repository order. */
+function SidebarSortMenu() {
+  const { activeRepo, setRepoSort } = useRepos();
+  const [isSorting, setIsSorting] = useState(false);
+
+  if (!activeRepo) return null;
+  const sort = activeRepo.sort ?? DEFAULT_SIDEBAR_SORT;
+
+  const update = async (next: SidebarSort) => {
+    setIsSorting(true);
+    try {
+      await setRepoSort(activeRepo.id, next);
+    } catch (e) {
+      console.warn("AppSidebarClient: failed to re-sort sidebar", e);
+    } finally {
+      setIsSorting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="sidebar-collapse-button"
+          aria-label="Sort sidebar"
+          title="Sort sidebar"
+          disabled={isSorting}
+        >
+          {isSorting ? <Loader2 size={16} className="animate-spin" /> : <ArrowDownUp size={16} />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Sort notes by</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={sort.mode}
+          onValueChange={(mode) => update({ ...sort, mode: mode as SidebarSortMode })}
+        >
+          {SIDEBAR_SORT_MODES.map(({ id, label }) => (
+            <DropdownMenuRadioItem key={id} value={id}>
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={sort.foldersFirst}
+          onCheckedChange={(checked) => update({ ...sort, foldersFirst: checked === true })}
+        >
+          Folders first
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 /** Floating trigger when sidebar is collapsed (desktop AND mobile) */
 function FloatingTrigger() {
   const { state, toggleSidebar, open, isMobile, openMobile } = useSidebar();
@@ -265,13 +432,18 @@ export default function AppSidebarClient({
 
       // 2) If no persisted sidebar, try to fetch the repo tree
       try {
-        const owner = localStorage.getItem("docurepo:repo_owner");
-        const repo = localStorage.getItem("docurepo:repo_name");
-        if (owner && repo) {
+        const location = getStoredRepoLocation();
+        const ref = localStorage.getItem("docurepo:repo_ref") ?? undefined;
+        if (location) {
           try {
-            const tree = await fetchRepoTree(owner, repo);
+            const tree = await getContentSource(location).listTree(
+              location.owner,
+              location.name,
+              { ref },
+            );
             if (Array.isArray(tree) && tree.length > 0) {
-              const built = buildSidebar(tree as GitTreeEntry[]);
+              const root = localStorage.getItem("docurepo:repo_root") ?? undefined;
+              const built = sortSidebar(buildSidebar(tree as GitTreeEntry[], root));
               try {
                 localStorage.setItem("docurepo:sidebar", JSON.stringify(built));
               } catch {
@@ -285,7 +457,7 @@ export default function AppSidebarClient({
               return;
             }
           } catch (fetchErr) {
-            console.warn("AppSidebarClient: fetchRepoTree failed", fetchErr);
+            console.warn("AppSidebarClient: tree fetch failed", fetchErr);
           }
         }
       } catch (e) {
@@ -341,6 +513,10 @@ export default function AppSidebarClient({
         "docurepo:repo",
         "docurepo:repo_owner",
         "docurepo:repo_name",
+        "docurepo:repo_ref",
+        "docurepo:repo_provider",
+        "docurepo:repo_host",
+        "docurepo:repo_root",
       ]);
 
       if (!key) {
@@ -362,12 +538,17 @@ export default function AppSidebarClient({
     };
   }, [refreshFromStorage]);
 
-  const renderNav = useMemo(
-    () => (nav && nav.length ? nav : []),
-    [nav],
-  );
-
   const { activeRepo } = useRepos();
+  const noteMetadata = useNoteMetadata();
+
+  // Frontmatter titles, unless `.docurepo.yml` sets the title explicitly
+  const configTitles = activeRepo?.config?.config.sidebar?.titles;
+  const rootPath = activeRepo?.rootPath;
+  const renderNav = useMemo(() => {
+    if (!nav?.length) return [];
+    const relative = (url: string) => (rootPath ? url.slice(rootPath.length + 1) : url);
+    return applyNoteTitles(nav, noteMetadata, (item) => !!configTitles?.[relative(item.url)]);
+  }, [nav, noteMetadata, configTitles, rootPath]);
 
   const handleAddRepo = () => {
     // Trigger the startup modal to show
@@ -383,7 +564,10 @@ export default function AppSidebarClient({
             <BookOpen className="sidebar-icon" size={18} />
             <span className="sidebar-header-text">DocuRepo</span>
           </Link>
-          <SidebarCollapseButton />
+          <div className="sidebar-header-actions">
+            <SidebarSortMenu />
+            <SidebarCollapseButton />
+          </div>
         </div>
 
         {/* Repository Switcher */}
@@ -405,6 +589,21 @@ export default function AppSidebarClient({
 
         {/* Sidebar Footer */}
         <SidebarFooter className="sidebar-footer">
+          <OfflineStatus />
+          <RateLimitStatus className="px-2 pb-2" />
+          <RepoConfigStatus className="px-2 pb-2" />
+          <Button variant="ghost" size="sm" className="w-full justify-start gap-2" asChild>
+            <Link href="/tags">
+              <Hash className="h-4 w-4" />
+              <span>Tags</span>
+            </Link>
+          </Button>
+          <Button variant="ghost" size="sm" className="w-full justify-start gap-2" asChild>
+            <Link href="/graph">
+              <Network className="h-4 w-4" />
+              <span>Graph</span>
+            </Link>
+          </Button>
           <Button variant="ghost" size="sm" className="w-full justify-start gap-2" asChild>
             <Link href="/">
               <Settings className="h-4 w-4" />
@@ -2,8 +2,12 @@
 
 import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { useRepos } from "@/components/repo";
-import { Command, Search, GitBranch, FileText, Shuffle, ArrowRight } from "lucide-react";
+import { useNoteMetadata, useRepos } from "@/components/repo";
+import { getShareUrl } from "@/components/share";
+import { collectTags, tagHref, tagKey } from "@/lib/tags";
+import { repoLabel } from "@/lib/sources";
+import { safeDecode } from "@/lib/utils";
+import { Command, Search, GitBranch, FileText, Shuffle, ArrowRight, Link2, Hash, Network } from "lucide-react";
 
 interface CommandItem {
   id: string;
@@ -33,6 +37,7 @@ export function CommandPaletteProvider({ children }: { children: React.ReactNode
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
   const { repos, activeRepo, setActiveRepo } = useRepos();
+  const noteMetadata = useNoteMetadata();
   const router = useRouter();
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -126,6 +131,42 @@ export function CommandPaletteProvider({ children }: { children: React.ReactNode
       },
       keywords: ["continue", "resume", "last"],
     },
+    {
+      id: "go-to-tag",
+      label: "Go to tag…",
+      icon: <Hash className="w-4 h-4" />,
+      // Switches the palette to listing tags
+      action: () => setQuery("#"),
+      keywords: ["tag", "tags", "topic", "#"],
+    },
+    {
+      id: "graph",
+      label: "Open graph",
+      icon: <Network className="w-4 h-4" />,
+      action: () => {
+        // From a note, start with the notes around it
+        const { pathname } = window.location;
+        router.push(
+          pathname.startsWith("/notes/")
+            ? `/graph?note=${encodeURIComponent(safeDecode(pathname.slice("/notes/".length)))}`
+            : "/graph",
+        );
+        close();
+      },
+      keywords: ["graph", "links", "map", "connections", "network"],
+    },
+    {
+      id: "copy-link",
+      label: "Copy link to this page",
+      icon: <Link2 className="w-4 h-4" />,
+      action: () => {
+        navigator.clipboard.writeText(getShareUrl(activeRepo)).catch((err) =>
+          console.error("Failed to copy link:", err),
+        );
+        close();
+      },
+      keywords: ["copy", "link", "share", "url"],
+    },
     {
       id: "shortcuts",
       label: "Show keyboard shortcuts",
@@ -140,19 +181,47 @@ export function CommandPaletteProvider({ children }: { children: React.ReactNode
     // Repo commands
     ...repos.map((repo, index) => ({
       id: `repo-${repo.id}`,
-      label: `Switch to ${repo.name}`,
+      label: `Switch to ${repoLabel(repo)}`,
       shortcut: index < 3 ? `⌘${index + 1}` : undefined,
       icon: <GitBranch className="w-4 h-4" />,
       action: () => {
         setActiveRepo(repo.id);
         close();
       },
-      keywords: ["repo", "repository", "switch", repo.name, repo.owner],
+      keywords: ["repo", "repository", "switch", repoLabel(repo), repo.owner],
     })),
   ];
 
+  // "#…" lists the active repo's tags instead of commands
+  const tagCommands: CommandItem[] = query.startsWith("#")
+    ? [
+        {
+          id: "all-tags",
+          label: "All tags",
+          icon: <Hash className="w-4 h-4" />,
+          action: () => {
+            router.push("/tags");
+            close();
+          },
+        },
+        ...collectTags(noteMetadata, activeRepo?.rootPath)
+          .filter((tag) => tag.key.includes(tagKey(query)))
+          .map((tag) => ({
+            id: `tag-${tag.key}`,
+            label: `#${tag.label} (${tag.count})`,
+            icon: <Hash className="w-4 h-4" />,
+            action: () => {
+              router.push(tagHref(tag.key));
+              close();
+            },
+          })),
+      ]
+    : [];
+
   // Filter commands based on query
-  const filteredCommands = query
+  const filteredCommands = query.startsWith("#")
+    ? tagCommands
+    : query
     ? commands.filter((cmd) => {
         const queryLower = query.toLowerCase();
         // Check if the query exactly matches a shortcut (case-insensitive)
@@ -0,0 +1,122 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Download, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { loadRepoFile } from "@/lib/content-cache";
+import { getToken } from "@/lib/github-tokens";
+import { getContentSource } from "@/lib/sources";
+import { safeDecode } from "@/lib/utils";
+import { useRepos } from "./repo";
+import { isImagePath } from "@/lib/wikilinks";
+import { CodeBlock } from "./markdown/CodeBlock";
+
+interface FileViewerProps {
+  /** Path to the file inside the repo, e.g. "week2/slides.pdf". */
+  path: string;
+}
+
+// Shown as text, highlighted by extension
+const TEXT_RE = /\.(txt|csv|tsv|json|ya?ml|toml|xml|html?|css|js|jsx|ts|tsx|py|java|c|h|cpp|cs|go|rs|rb|php|sh|sql|tex|r|m)$/i;
+
+type Loaded =
+  | { kind: "text"; text: string }
+  | { kind: "image" | "pdf" | "other"; url: string };
+
+/**
+ * Shows a repo file that isn't a note (linked from one): images and PDFs
+ * inline, text and code highlighted, anything else as a download.
+ */
+export default function FileViewer({ path }: FileViewerProps) {
+  const { activeRepo, isReady } = useRepos();
+  const [file, setFile] = useState<Loaded | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const filePath = safeDecode(path);
+  const name = filePath.split("/").pop() ?? filePath;
+
+  const provider = activeRepo?.provider;
+  const host = activeRepo?.host;
+  const owner = activeRepo?.owner;
+  const repo = activeRepo?.name;
+  const ref = activeRepo?.ref;
+
+  // Reload when the active repo or its ref changes
+  useEffect(() => {
+    // Saved repos are still being read
+    if (!isReady) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (!provider || !host || !owner || !repo || !ref) throw new Error("No repository selected.");
+        const location = { provider, host, owner, name: repo };
+
+        if (TEXT_RE.test(filePath)) {
+          const text = await loadRepoFile(location, filePath, { ref });
+          if (!cancelled) setFile({ kind: "text", text });
+          return;
+        }
+
+        const blob = await getContentSource(location).readBlob(owner, repo, filePath, {
+          ref,
+          token: getToken(owner, repo, host),
+        });
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        const kind = isImagePath(filePath) ? "image" : /\.pdf$/i.test(filePath) ? "pdf" : "other";
+        setFile({ kind, url: objectUrl });
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [filePath, isReady, provider, host, owner, repo, ref]);
+
+  const extension = name.includes(".") ? name.slice(name.lastIndexOf(".") + 1).toLowerCase() : "text";
+
+  return (
+    <div className="max-w-none">
+      <header className="flex items-center justify-between gap-3 mb-4">
+        <h1 className="flex items-center gap-2 text-lg font-semibold truncate">
+          <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+          <span className="truncate">{name}</span>
+        </h1>
+        {file && file.kind !== "text" && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs text-muted-foreground" asChild>
+            <a href={file.url} download={name}>
+              <Download className="w-3.5 h-3.5 mr-1.5" />
+              Download
+            </a>
+          </Button>
+        )}
+      </header>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      ) : !file ? (
+        <div className="text-sm text-muted-foreground">Loading file…</div>
+      ) : file.kind === "text" ? (
+        <CodeBlock code={file.text} language={extension} />
+      ) : file.kind === "image" ? (
+        // next/image can't optimize blob: URLs
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={file.url} alt={name} style={{ maxWidth: "100%", height: "auto" }} />
+      ) : file.kind === "pdf" ? (
+        <iframe src={file.url} title={name} className="w-full h-[80vh] rounded-md border border-border" />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This file can&apos;t be shown here. Use <strong>Download</strong> to open it.
+        </p>
+      )}
+    </div>
+  );
+}
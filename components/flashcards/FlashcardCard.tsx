@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import type { Flashcard } from "@/lib/flashcard-types";
+import { MathText } from "@/components/markdown/MathExpression";
 
 interface FlashcardCardProps {
   card: Flashcard;
@@ -55,7 +56,7 @@ export function FlashcardCard({ card, onFlip, flipped: controlledFlipped }: Flas
         <div className="fc-face fc-face-front">
           <span className="fc-suit">{suit}</span>
           <span className="fc-label">Question</span>
-          <p className={`fc-text${questionHasNewlines ? " fc-text-multiline" : ""}`}>{card.question}</p>
+          <p className={`fc-text${questionHasNewlines ? " fc-text-multiline" : ""}`}><MathText text={card.question} /></p>
           <span className="fc-hint">
             <kbd>Space</kbd> to flip
           </span>
@@ -65,7 +66,7 @@ export function FlashcardCard({ card, onFlip, flipped: controlledFlipped }: Flas
         <div className="fc-face fc-face-back">
           <span className="fc-suit">{suit}</span>
           <span className="fc-label">Answer</span>
-          <p className={`fc-text${answerHasNewlines ? " fc-text-multiline" : ""}`}>{card.answer}</p>
+          <p className={`fc-text${answerHasNewlines ? " fc-text-multiline" : ""}`}><MathText text={card.answer} /></p>
           <span className="fc-hint">Rate your recall below</span>
         </div>
       </div>
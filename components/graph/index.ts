@@ -0,0 +1,3 @@
+// Note graph exports
+export { NoteGraph } from "./note-graph";
+export { LocalGraphButton } from "./local-graph-button";
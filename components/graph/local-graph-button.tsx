@@ -0,0 +1,20 @@
+"use client";
+
+import Link from "next/link";
+import { Network } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn, safeDecode } from "@/lib/utils";
+
+/** Opens the graph centred on the note at `path`. */
+export function LocalGraphButton({ path, className }: { path: string; className?: string }) {
+  const notePath = safeDecode(path);
+
+  return (
+    <Button variant="ghost" size="sm" className={cn("h-7 text-xs text-muted-foreground", className)} asChild>
+      <Link href={`/graph?note=${encodeURIComponent(notePath)}`} title="Notes linked to and from this one">
+        <Network className="w-3.5 h-3.5 mr-1.5" />
+        Local graph
+      </Link>
+    </Button>
+  );
+}
@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Loader2, LocateFixed, Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useNoteMetadata, useRepos } from "@/components/repo";
+import { LinkIndexCoverage, useLinkIndex } from "@/components/links";
+import { buildNoteGraph, layoutStep, type GraphNode } from "@/lib/graph-layout";
+import { noteHref } from "@/lib/wikilinks";
+import { repoLabel } from "@/lib/sources";
+
+// Folder colours; notes at the root are drawn muted
+const GROUP_COLORS = ["var(--chart-1)", "var(--chart-2)", "var(--chart-3)", "var(--chart-4)", "var(--chart-5)"];
+const ROOT_COLOR = "var(--muted-foreground)";
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+// Labels show for every node from this zoom on
+const LABEL_ZOOM = 1.4;
+// Pointer travel (px) below which a press counts as a click
+const CLICK_SLOP = 4;
+
+interface View {
+  x: number;
+  y: number;
+  k: number;
+}
+
+/**
+ * Force-directed graph of the active repo's notes and links. With
+ * `?note=path` it starts as that note's local graph.
+ */
+export function NoteGraph() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const center = searchParams.get("note") ?? undefined;
+
+  const { activeRepo } = useRepos();
+  const metadata = useNoteMetadata();
+  const { index, scan, isScanning, downloadMissing } = useLinkIndex();
+
+  const [local, setLocal] = useState(!!center);
+  const [depth, setDepth] = useState(1);
+  const [view, setView] = useState<View>({ x: 0, y: 0, k: 1 });
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [, setFrame] = useState(0);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number; view: View; node?: string; moved: boolean } | null>(null);
+
+  const graph = useMemo(
+    () =>
+      index
+        ? buildNoteGraph(index, { rootPath: activeRepo?.rootPath, center: local ? center : undefined, depth })
+        : null,
+    [index, activeRepo?.rootPath, local, center, depth],
+  );
+
+  const groups = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const node of graph?.nodes ?? []) counts.set(node.group, (counts.get(node.group) ?? 0) + 1);
+    return Array.from(counts.keys()).filter(Boolean).sort();
+  }, [graph]);
+
+  const hasRepo = !!activeRepo;
+  const hasSvg = !!graph && size.width > 0;
+
+  const colorOf = (node: GraphNode) => {
+    const i = groups.indexOf(node.group);
+    return i === -1 ? ROOT_COLOR : GROUP_COLORS[i % GROUP_COLORS.length];
+  };
+
+  // Run the layout until it settles, redrawing each frame
+  useEffect(() => {
+    if (!graph) return;
+    let alpha = 1;
+    let frame = requestAnimationFrame(function tick() {
+      layoutStep(graph, alpha);
+      alpha *= 0.98;
+      setFrame((f) => f + 1);
+      if (alpha > 0.01) frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [graph]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasRepo]);
+
+  // Wheel zoom around the pointer (non-passive, so the page doesn't scroll)
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const px = e.clientX - rect.left - rect.width / 2;
+      const py = e.clientY - rect.top - rect.height / 2;
+      setView((v) => zoomAt(v, v.k * Math.exp(-e.deltaY * 0.0015), px, py));
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [hasSvg]);
+
+  const neighbours = useMemo(() => {
+    if (!graph || !hovered) return null;
+    const ids = new Set([hovered]);
+    for (const { source, target } of graph.edges) {
+      if (source === hovered) ids.add(target);
+      if (target === hovered) ids.add(source);
+    }
+    return ids;
+  }, [graph, hovered]);
+
+  if (!activeRepo) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-semibold">Graph</h1>
+        <p className="mt-2 text-muted-foreground">Add a repository to see how its notes link together.</p>
+      </div>
+    );
+  }
+
+  const titleOf = (id: string) => metadata[id]?.title ?? id.split("/").pop()?.replace(/\.md$/i, "") ?? id;
+  const byId = new Map(graph?.nodes.map((node) => [node.id, node]));
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const node = (e.target as Element).closest("[data-node]")?.getAttribute("data-node") ?? undefined;
+    drag.current = { x: e.clientX, y: e.clientY, view, node, moved: false };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const start = drag.current;
+    if (!start) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (!start.moved && Math.hypot(dx, dy) < CLICK_SLOP) return;
+    start.moved = true;
+    setView({ ...start.view, x: start.view.x + dx, y: start.view.y + dy });
+  };
+
+  const onPointerUp = () => {
+    const start = drag.current;
+    drag.current = null;
+    if (start?.node && !start.moved) router.push(noteHref(start.node));
+  };
+
+  const showLabel = (node: GraphNode) =>
+    local || view.k >= LABEL_ZOOM || node.id === center || !!neighbours?.has(node.id);
+
+  return (
+    <div className="p-6 lg:p-10">
+      <div className="max-w-6xl mx-auto">
+        <header className="mb-4 pt-2 flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Graph</h1>
+            <p className="text-sm text-muted-foreground mt-0.5">
+              {graph
+                ? `${graph.nodes.length} note${graph.nodes.length !== 1 ? "s" : ""}, ${graph.edges.length} link${graph.edges.length !== 1 ? "s" : ""}`
+                : `Links between the notes in ${repoLabel(activeRepo)}`}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button variant={local ? "ghost" : "secondary"} size="sm" onClick={() => setLocal(false)}>
+              Whole repo
+            </Button>
+            <Button
+              variant={local ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setLocal(true)}
+              disabled={!center}
+              title={center ? `Notes around ${titleOf(center)}` : "Open the graph from a note to see the notes around it"}
+            >
+              Local
+            </Button>
+            {local && (
+              <div className="flex items-center gap-0.5 ml-2" role="group" aria-label="Depth">
+                {[1, 2, 3].map((d) => (
+                  <Button
+                    key={d}
+                    variant={depth === d ? "secondary" : "ghost"}
+                    size="icon-sm"
+                    onClick={() => setDepth(d)}
+                    title={`Notes up to ${d} link${d > 1 ? "s" : ""} away`}
+                  >
+                    {d}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        </header>
+
+        {isScanning && scan ? (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground mb-3">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Reading notes… {scan.scanned}/{scan.total}
+          </p>
+        ) : (
+          <LinkIndexCoverage scan={scan} onDownload={downloadMissing} className="mb-3" />
+        )}
+
+        <div
+          ref={containerRef}
+          className="relative h-[70vh] min-h-[360px] rounded-lg border border-border/60 bg-card overflow-hidden"
+        >
+          {graph && hasSvg ? (
+            <svg
+              ref={svgRef}
+              width={size.width}
+              height={size.height}
+              className="touch-none select-none cursor-grab active:cursor-grabbing"
+              onPointerDown={onPointerDown}
+              onPointerMove={onPointerMove}
+              onPointerUp={onPointerUp}
+              onPointerCancel={() => {
+                drag.current = null;
+              }}
+              role="img"
+              aria-label="Graph of linked notes"
+            >
+              <g transform={`translate(${size.width / 2 + view.x},${size.height / 2 + view.y}) scale(${view.k})`}>
+                {graph.edges.map(({ source, target }) => {
+                  const a = byId.get(source);
+                  const b = byId.get(target);
+                  if (!a || !b) return null;
+                  const lit = hovered === source || hovered === target;
+                  return (
+                    <line
+                      key={`${source}\n${target}`}
+                      x1={a.x}
+                      y1={a.y}
+                      x2={b.x}
+                      y2={b.y}
+                      stroke={lit ? "var(--primary)" : "var(--border)"}
+                      strokeOpacity={neighbours && !lit ? 0.3 : 1}
+                      strokeWidth={(lit ? 1.5 : 1) / view.k}
+                    />
+                  );
+                })}
+
+                {graph.nodes.map((node) => {
+                  const dimmed = !!neighbours && !neighbours.has(node.id);
+                  const isCenter = local && node.id === center;
+                  const radius = (isCenter ? 7 : 4) + Math.sqrt(node.degree) * 1.5;
+                  return (
+                    <g
+                      key={node.id}
+                      data-node={node.id}
+                      className="cursor-pointer"
+                      opacity={dimmed ? 0.25 : 1}
+                      onPointerEnter={() => setHovered(node.id)}
+                      onPointerLeave={() => setHovered(null)}
+                    >
+                      <circle
+                        cx={node.x}
+                        cy={node.y}
+                        r={radius}
+                        fill={isCenter ? "var(--primary)" : colorOf(node)}
+                        stroke="var(--card)"
+                        strokeWidth={1.5 / view.k}
+                      />
+                      <title>{node.id}</title>
+                      {showLabel(node) && (
+                        <text
+                          x={node.x}
+                          y={node.y + radius + 11 / view.k}
+                          textAnchor="middle"
+                          fontSize={11 / view.k}
+                          fill="var(--foreground)"
+                          className="pointer-events-none"
+                        >
+                          {titleOf(node.id)}
+                        </text>
+                      )}
+                    </g>
+                  );
+                })}
+              </g>
+            </svg>
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              {isScanning || !index ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Finding links…
+                </>
+              ) : (
+                "No notes to show"
+              )}
+            </div>
+          )}
+
+          {graph && (
+            <div className="absolute right-2 top-2 flex flex-col gap-1">
+              <Button
+                variant="outline"
+                size="icon-sm"
+                onClick={() => setView((v) => zoomAt(v, v.k * 1.3, 0, 0))}
+                aria-label="Zoom in"
+              >
+                <Plus />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon-sm"
+                onClick={() => setView((v) => zoomAt(v, v.k / 1.3, 0, 0))}
+                aria-label="Zoom out"
+              >
+                <Minus />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon-sm"
+                onClick={() => setView({ x: 0, y: 0, k: 1 })}
+                aria-label="Reset view"
+              >
+                <LocateFixed />
+              </Button>
+            </div>
+          )}
+
+          {groups.length > 0 && (
+            <ul className="absolute left-2 bottom-2 max-h-[40%] overflow-auto rounded-md bg-card/90 px-2.5 py-2 text-[11px] text-muted-foreground space-y-1">
+              {groups.map((group, i) => (
+                <li key={group} className="flex items-center gap-1.5">
+                  <span
+                    className="inline-block w-2 h-2 rounded-full flex-shrink-0"
+                    style={{ background: GROUP_COLORS[i % GROUP_COLORS.length] }}
+                  />
+                  <span className="truncate max-w-[12rem]">{group}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Zoom to `k`, keeping the point (px, py) from the centre where it is
+function zoomAt(view: View, k: number, px: number, py: number): View {
+  const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k));
+  const ratio = next / view.k;
+  return { k: next, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio };
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { ChevronRight, FileText, Loader2 } from "lucide-react";
+import { useNoteMetadata } from "@/components/repo";
+import { linkedMentions, unlinkedMentions, type Mention } from "@/lib/note-links";
+import { noteHref } from "@/lib/wikilinks";
+import { cn } from "@/lib/utils";
+import { LinkIndexCoverage } from "./link-index-coverage";
+import { useLinkIndex } from "./use-link-index";
+
+/**
+ * "Linked mentions" (notes linking here) and "Unlinked mentions" (notes
+ * writing this note's title or an alias without linking), shown under a note.
+ * Collapsed at first: the repo's notes are only read once it's opened.
+ */
+export function BacklinksPanel({ path }: { path: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { index, scan, isScanning, downloadMissing } = useLinkIndex(isOpen);
+  const metadata = useNoteMetadata();
+  const [showUnlinked, setShowUnlinked] = useState(false);
+
+  const linked = useMemo(() => (index ? linkedMentions(index, path) : []), [index, path]);
+
+  // Only searched for once expanded; this reads every note's text
+  const unlinked = useMemo(() => {
+    if (!index || !showUnlinked) return [];
+    const note = metadata[path];
+    return unlinkedMentions(index, path, [fileTitle(path), note?.title ?? "", ...(note?.aliases ?? [])]);
+  }, [index, path, metadata, showUnlinked]);
+
+  const titleOf = (source: string) => metadata[source]?.title ?? fileTitle(source);
+
+  return (
+    <section className="mt-12 pt-6 border-t border-border/60 space-y-6" aria-label="Mentions of this note">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-1 text-xs font-semibold uppercase tracking-widest text-muted-foreground hover:text-foreground"
+      >
+        <ChevronRight className={cn("w-3 h-3 transition-transform", isOpen && "rotate-90")} />
+        Backlinks
+      </button>
+
+      {!isOpen ? null : !index ? (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Finding links to this note… {scan ? `${scan.scanned}/${scan.total}` : ""}
+        </p>
+      ) : (
+        <>
+          <div>
+            <h2 className="text-xs font-semibold uppercase tracking-widest text-muted-foreground mb-3">
+              Linked mentions <span className="tabular-nums">{linked.length}</span>
+            </h2>
+            {linked.length > 0 ? (
+              <MentionList mentions={linked} titleOf={titleOf} />
+            ) : (
+              <p className="text-sm text-muted-foreground">No notes link here yet</p>
+            )}
+          </div>
+
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowUnlinked(!showUnlinked)}
+              aria-expanded={showUnlinked}
+              className="flex items-center gap-1 text-xs font-semibold uppercase tracking-widest text-muted-foreground hover:text-foreground mb-3"
+            >
+              <ChevronRight className={cn("w-3 h-3 transition-transform", showUnlinked && "rotate-90")} />
+              Unlinked mentions
+              {showUnlinked && <span className="tabular-nums ml-1">{unlinked.length}</span>}
+            </button>
+            {showUnlinked &&
+              (unlinked.length > 0 ? (
+                <MentionList mentions={unlinked} titleOf={titleOf} />
+              ) : (
+                <p className="text-sm text-muted-foreground">No other notes mention this one by name</p>
+              ))}
+          </div>
+
+          {!isScanning && <LinkIndexCoverage scan={scan} onDownload={downloadMissing} />}
+        </>
+      )}
+    </section>
+  );
+}
+
+function MentionList({ mentions, titleOf }: { mentions: Mention[]; titleOf: (path: string) => string }) {
+  return (
+    <ul className="space-y-0.5">
+      {mentions.map(({ source, snippets }) => {
+        const folder = source.includes("/") ? source.slice(0, source.lastIndexOf("/")) : "";
+        return (
+          <li key={source} className="py-2 px-3 -mx-3 rounded-md hover:bg-accent/60 transition-colors">
+            <Link href={noteHref(source)} className="flex items-center gap-3 group">
+              <FileText className="w-3.5 h-3.5 text-muted-foreground/60 group-hover:text-foreground/70 flex-shrink-0" />
+              <span className="text-sm font-medium truncate">{titleOf(source)}</span>
+              {folder && <span className="text-[11px] text-muted-foreground/60 truncate">{folder}</span>}
+            </Link>
+            {snippets.map((snippet) => (
+              <p key={snippet} className="text-xs text-muted-foreground mt-1 ml-[26px] line-clamp-2">
+                {snippet}
+              </p>
+            ))}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function fileTitle(path: string): string {
+  return path.split("/").pop()?.replace(/\.md$/i, "") ?? path;
+}
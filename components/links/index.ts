@@ -0,0 +1,4 @@
+// Note link exports
+export { BacklinksPanel } from "./backlinks-panel";
+export { LinkIndexCoverage } from "./link-index-coverage";
+export { useLinkIndex } from "./use-link-index";
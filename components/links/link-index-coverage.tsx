@@ -0,0 +1,33 @@
+"use client";
+
+import type { NoteScan } from "@/lib/note-metadata";
+import { cn } from "@/lib/utils";
+
+interface LinkIndexCoverageProps {
+  scan: NoteScan | null;
+  /** Reads the notes that were skipped (see `useLinkIndex`) */
+  onDownload: () => void;
+  className?: string;
+}
+
+/**
+ * Says how much of the repo the link index covers when some notes were
+ * skipped (not cached, or the API quota ran low), with a way to read them.
+ */
+export function LinkIndexCoverage({ scan, onDownload, className }: LinkIndexCoverageProps) {
+  if (!scan || (!scan.stoppedBy && !scan.missing)) return null;
+
+  return (
+    <p className={cn("text-xs text-muted-foreground", className)}>
+      Read {scan.scanned} of {scan.total} notes{scan.missing ? " saved on this device" : ""}, so some links may be
+      missing. {scan.stoppedBy}{" "}
+      <button
+        type="button"
+        onClick={onDownload}
+        className="underline underline-offset-2 hover:text-foreground"
+      >
+        Download the rest
+      </button>
+    </p>
+  );
+}
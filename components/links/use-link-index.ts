@@ -0,0 +1,120 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { useRepos, type Repo } from "@/components/repo";
+import type { LinkIndex } from "@/lib/note-links";
+import { canDownloadNotes, type NoteScan } from "@/lib/note-metadata";
+
+interface LinkIndexBuild {
+  index: LinkIndex | null;
+  scan: NoteScan | null;
+  done: boolean;
+}
+
+/** Fired on window whenever a build makes progress. */
+const LINKS_EVENT = "docurepo:links-updated";
+
+// Indexes built this session, by tree (repo id, ref and tree sha)
+const builds = new Map<string, LinkIndexBuild>();
+
+function update(key: string, build: LinkIndexBuild) {
+  builds.set(key, build);
+  window.dispatchEvent(new CustomEvent(LINKS_EVENT));
+}
+
+function subscribe(callback: () => void): () => void {
+  window.addEventListener(LINKS_EVENT, callback);
+  return () => window.removeEventListener(LINKS_EVENT, callback);
+}
+
+/**
+ * Link index of the active repo, built once per tree while `enabled`
+ * (the backlinks panel is open, or the graph is shown). Shared by every
+ * component that asks for it.
+ *
+ * Notes come from the content cache; ones that aren't cached are only
+ * downloaded when a token is set, or when `downloadMissing` is called.
+ */
+export function useLinkIndex(enabled = true): {
+  index: LinkIndex | null;
+  scan: NoteScan | null;
+  isScanning: boolean;
+  downloadMissing: () => void;
+} {
+  const { activeRepo } = useRepos();
+
+  const key = activeRepo
+    ? `${activeRepo.id}@${activeRepo.ref}:${activeRepo.stats?.treeSha ?? activeRepo.stats?.lastFetched ?? ""}`
+    : null;
+
+  const build = useSyncExternalStore(
+    subscribe,
+    () => (key ? builds.get(key) ?? null : null),
+    () => null,
+  );
+
+  useEffect(() => {
+    if (!enabled || !activeRepo || !key || builds.has(key)) return;
+    buildIndex(activeRepo, key, !canDownloadNotes(activeRepo));
+  }, [enabled, activeRepo, key]);
+
+  const downloadMissing = useCallback(() => {
+    if (!activeRepo || !key || (builds.has(key) && !builds.get(key)?.done)) return;
+    buildIndex(activeRepo, key, false);
+  }, [activeRepo, key]);
+
+  return {
+    index: build?.index ?? null,
+    scan: build?.scan ?? null,
+    isScanning: !!build && !build.done,
+    downloadMissing,
+  };
+}
+
+function buildIndex(repo: Repo, key: string, cachedOnly: boolean) {
+  const previous = builds.get(key);
+
+  // Older trees of this repo are out of date
+  for (const old of builds.keys()) {
+    if (old !== key && old.startsWith(`${repo.id}@`)) builds.delete(old);
+  }
+  builds.set(key, { index: previous?.index ?? null, scan: previous?.scan ?? null, done: false });
+
+  (async () => {
+    try {
+      const { loadRepoTree } = await import("@/lib/content-cache");
+      const { getNoteMetadata, scanRepoNotes } = await import("@/lib/note-metadata");
+      const { buildLinkIndex } = await import("@/lib/note-links");
+      const { createNoteResolver, sidebarPaths } = await import("@/lib/wikilinks");
+      const { repoId } = await import("@/lib/sources");
+
+      const tree = await loadRepoTree(repo, { ref: repo.ref });
+      const bodies: Record<string, string> = {};
+      const scan = await scanRepoNotes(
+        repo,
+        tree,
+        { ref: repo.ref, rootPath: repo.rootPath, cachedOnly },
+        {
+          onNote: (path, note) => {
+            bodies[path] = note.body;
+          },
+          onProgress: (progress) => update(key, { index: previous?.index ?? null, scan: progress, done: false }),
+        },
+      );
+
+      // Aliases are complete once every note has been read
+      const aliases = Object.fromEntries(
+        Object.entries(getNoteMetadata(repoId(repo))).map(([path, note]) => [path, note.aliases]),
+      );
+      const resolver = createNoteResolver(sidebarPaths(repo.sidebar), {
+        rootPath: repo.rootPath,
+        aliases,
+      });
+      update(key, { index: buildLinkIndex(bodies, resolver, repo.rootPath), scan, done: true });
+    } catch (e) {
+      console.warn("Link index build failed:", e);
+      builds.delete(key);
+      window.dispatchEvent(new CustomEvent(LINKS_EVENT));
+    }
+  })();
+}
@@ -1,20 +1,52 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { fetchMarkdown } from "@/lib/utils";
+import { loadRepoFile, loadRepoTree } from "@/lib/content-cache";
+import { getToken, TOKENS_UPDATED_EVENT } from "@/lib/github-tokens";
+import { markChangesSeen } from "@/lib/change-feed";
+import { parseNote, type NoteMetadata, type ParsedNote } from "@/lib/frontmatter";
+import { indexEntry, recordNoteMetadata } from "@/lib/note-metadata";
+import { safeDecode, scopeTree } from "@/lib/utils";
+import { headingSlug } from "@/lib/headings";
+import { extractMath } from "@/lib/math";
+import { resolveRelativeLink } from "@/lib/note-links";
+import { createNoteResolver, isImagePath, parseNoteHref, repoPathHref, sidebarPaths } from "@/lib/wikilinks";
+import {
+  GITHUB_HOST,
+  getContentSource,
+  repoId,
+  type RepoLocation,
+} from "@/lib/sources";
+import { useNoteMetadata, useRepos } from "./repo";
+import { BacklinksPanel } from "./links";
 import { Callout } from "./markdown/Callout";
+import { NoteEmbed, NoteEmbedContext } from "./markdown/NoteEmbed";
+import { LinkPreview } from "./markdown/LinkPreview";
+import { NoteHeader } from "./markdown/NoteHeader";
+import { headingRenderer } from "./markdown/Heading";
+import { TableOfContents } from "./markdown/TableOfContents";
 import { MermaidDiagram } from "./markdown/MermaidDiagram";
+import { MathExpression } from "./markdown/MathExpression";
 import { CodeBlock, InlineCode } from "./markdown/CodeBlock";
 import { parseCallout } from "./markdown/callout-utils";
+import { remarkWikiLinks } from "./markdown/remark-wikilinks";
+import { remarkHeadingIds } from "./markdown/remark-heading-ids";
+import { remarkMath } from "./markdown/remark-math";
 import "./markdown/markdown-styles.css";
 
 interface MarkdownViewerProps {
-  /** Repository owner (e.g. "username"). Falls back to localStorage if not provided. */
+  /** Repository owner (e.g. "username"). Falls back to the active repo if not provided. */
   owner?: string;
-  /** Repository name (e.g. "notes"). Falls back to localStorage if not provided. */
+  /** Repository name (e.g. "notes"). Falls back to the active repo if not provided. */
   repo?: string;
+  /**
+   * Branch, tag or commit to read from. Falls back to the active repo's ref,
+   * then (for explicit `owner`/`repo`) the repository's default branch.
+   */
+  gitRef?: string;
   /** Path to the markdown file inside the repo, e.g. "notes/intro.md". */
   path?: string;
   /** Alias for `path` commonly used by pages that pass a slug param. */
@@ -25,9 +57,30 @@ interface MarkdownViewerProps {
 
 // Markdown component renderers
 const renderers = {
-  a: (props: React.ComponentPropsWithoutRef<"a">) => (
-    <a {...props} target="_blank" rel="noopener noreferrer" />
-  ),
+  // ![[Note]] embeds arrive as <div data-embed="path"> from remarkWikiLinks,
+  // display math on its own line as <div data-math="…"> from remarkMath
+  div: (
+    props: React.ComponentPropsWithoutRef<"div"> & { "data-embed"?: string; "data-heading"?: string; "data-math"?: string },
+  ) => {
+    const { "data-embed": embed, "data-heading": heading, "data-math": math, ...rest } = props;
+    if (embed) return <NoteEmbed path={embed} heading={heading} />;
+    if (math !== undefined) return <MathExpression tex={math} display />;
+    return <div {...rest} />;
+  },
+
+  // $…$ and $$…$$ arrive as <span data-math="…"> from remarkMath
+  span: (props: React.ComponentPropsWithoutRef<"span"> & { "data-math"?: string; "data-display"?: string }) => {
+    const { "data-math": math, "data-display": display, ...rest } = props;
+    if (math !== undefined) return <MathExpression tex={math} display={display === "true"} />;
+    return <span {...rest} />;
+  },
+
+  h1: headingRenderer(1),
+  h2: headingRenderer(2),
+  h3: headingRenderer(3),
+  h4: headingRenderer(4),
+  h5: headingRenderer(5),
+  h6: headingRenderer(6),
 
   pre: ({ children }: { children?: React.ReactNode }) => {
     return <>{children}</>;
@@ -55,9 +108,44 @@ const renderers = {
 
     return <CodeBlock code={codeText} language={language || "text"} />;
   },
+};
+
+// Link renderer factory - relative links resolve against the note's path,
+// and links to other notes preview them on hover
+function createLinkRenderer(notePath: string, rootPath: string | undefined) {
+  return function MarkdownLink({ href, className, ...props }: React.ComponentPropsWithoutRef<"a">) {
+    // Wikilinks arrive as app routes already
+    if (href && className?.includes("wikilink") && !href.startsWith("#")) {
+      const note = parseNoteHref(href);
+      const link = <Link href={href} className={className} {...props} />;
+      return note ? <LinkPreview path={note.path} heading={note.hash}>{link}</LinkPreview> : link;
+    }
+
+    if (!href) return <a className={className} {...props} />;
+
+    // Same-page anchors, written as GitHub slugs or as heading text
+    if (href.startsWith("#")) {
+      return <a href={`#${headingSlug(safeDecode(href.slice(1)))}`} className={className} {...props} />;
+    }
+
+    if (/^(https?:)?\/\//i.test(href)) {
+      return <a href={href} className={className} {...props} target="_blank" rel="noopener noreferrer" />;
+    }
+
+    // Anything else is a repo path; mailto: and other schemes resolve to null
+    const target = resolveRelativeLink(href, safeDecode(notePath), rootPath);
+    if (!target) return <a href={href} className={className} {...props} />;
+
+    const link = <Link href={repoPathHref(target.path, target.hash)} className={className} {...props} />;
+    if (!/\.md$/i.test(target.path)) return link;
+    return <LinkPreview path={target.path} heading={target.hash}>{link}</LinkPreview>;
+  };
+}
 
-  blockquote: ({ children }: { children?: React.ReactNode }) => {
-    const parsed = parseCallout(children);
+// Blockquote renderer factory - needs the repo's callout aliases
+function createBlockquoteRenderer(calloutAliases: Record<string, string> | undefined) {
+  return function Blockquote({ children }: { children?: React.ReactNode }) {
+    const parsed = parseCallout(children, calloutAliases);
 
     if (parsed.isCallout) {
       return (
@@ -68,82 +156,152 @@ const renderers = {
     return (
       <blockquote className="markdown-blockquote">{children}</blockquote>
     );
-  },
-};
-
-// Image renderer factory - needs path context
-function createImageRenderer(path: string | undefined, slug: string | undefined) {
-  return (props: React.ComponentPropsWithoutRef<"img">) => {
-    const { src, alt, ...rest } = props;
-    const srcStr = src as string;
-
-    // Skip if already absolute or data URI
-    if (
-      !srcStr ||
-      typeof srcStr !== "string" ||
-      srcStr.startsWith("http://") ||
-      srcStr.startsWith("https://") ||
-      srcStr.startsWith("data:") ||
-      srcStr.startsWith("//")
-    ) {
-      return <img {...props} />;
-    }
-
-    const filePath = path ?? slug ?? "";
-    const fileDir = filePath.includes("/")
-      ? filePath.substring(0, filePath.lastIndexOf("/"))
-      : "";
-
-    let resolvedPath = srcStr;
-    if (srcStr.startsWith("../")) {
-      const parentDir = fileDir.includes("/")
-        ? fileDir.substring(0, fileDir.lastIndexOf("/"))
-        : "";
-      resolvedPath = parentDir + "/" + srcStr.substring(3);
-    } else if (srcStr.startsWith("./")) {
-      resolvedPath = fileDir + "/" + srcStr.substring(2);
-    } else if (fileDir) {
-      resolvedPath = fileDir + "/" + srcStr;
-    }
-
-    resolvedPath = resolvedPath.replace(/^\//, "");
+  };
+}
 
-    // Build GitHub raw URL - will be set by the main component
-    return <ImageWithGitHubUrl src={resolvedPath} alt={alt} {...rest} />;
+// Repo images are read through the content source: relative paths resolve
+// against the note's folder, "/paths" against the notes root
+function createImageRenderer(notePath: string, rootPath: string | undefined) {
+  return function MarkdownImage({ src, alt, ...props }: React.ComponentPropsWithoutRef<"img">) {
+    const target = typeof src === "string" ? resolveRelativeLink(src, safeDecode(notePath), rootPath) : null;
+    if (!target) return <img src={src} alt={alt} {...props} />;
+    return <ImageWithGitHubUrl src={target.path} alt={alt} {...props} />;
   };
 }
 
-// Helper component to access refs for GitHub URL construction
+// Loads a repo image from the active repo, again when it (or its ref or
+// token) changes
 function ImageWithGitHubUrl(props: React.ComponentPropsWithoutRef<"img"> & { src: string }) {
   const { src, alt, ...rest } = props;
-  const [owner, setOwner] = useState<string | null>(null);
-  const [repo, setRepo] = useState<string | null>(null);
+  const { activeRepo } = useRepos();
+  const [resolvedSrc, setResolvedSrc] = useState<string | null>(null);
+  const [tokenVersion, setTokenVersion] = useState(0);
+
+  const provider = activeRepo?.provider;
+  const host = activeRepo?.host;
+  const owner = activeRepo?.owner;
+  const name = activeRepo?.name;
+  const ref = activeRepo?.ref;
 
   useEffect(() => {
-    const storedOwner = localStorage.getItem("docurepo:repo_owner");
-    const storedRepo = localStorage.getItem("docurepo:repo_name");
-    if (storedOwner) setOwner(storedOwner);
-    if (storedRepo) setRepo(storedRepo);
+    const onTokensUpdated = () => setTokenVersion((v) => v + 1);
+    window.addEventListener(TOKENS_UPDATED_EVENT, onTokensUpdated);
+    return () => window.removeEventListener(TOKENS_UPDATED_EVENT, onTokensUpdated);
   }, []);
 
-  if (!owner || !repo) {
+  useEffect(() => {
+    if (!provider || !host || !owner || !name || !ref) return;
+
+    const source = getContentSource({ provider, host });
+
+    // Private repos: raw URLs can't take a token, so go through the API
+    // and show the image from an object URL instead. Local sources have
+    // no raw URL at all.
+    const token = getToken(owner, name, host);
+    const rawUrl = token ? null : source.rawUrl(owner, name, ref, src);
+    if (rawUrl) {
+      setResolvedSrc(rawUrl);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    source.readBlob(owner, name, src, { ref, token })
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setResolvedSrc(objectUrl);
+      })
+      .catch((err) => console.warn("Failed to load image:", src, err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [provider, host, owner, name, ref, src, tokenVersion]);
+
+  if (!resolvedSrc) {
     return <img src={src} alt={alt} {...rest} />;
   }
 
-  const rawUrl = `https://raw.githubusercontent.com/${owner}/${repo}/main/${src}`;
-  return <img src={rawUrl} alt={alt} {...rest} style={{ maxWidth: "100%", height: "auto" }} />;
+  return <img src={resolvedSrc} alt={alt} {...rest} style={{ maxWidth: "100%", height: "auto" }} />;
 }
 
 export default function MarkdownViewer({
   owner,
   repo,
+  gitRef,
   path,
   slug,
   className,
 }: MarkdownViewerProps) {
   const [content, setContent] = useState<string | null>(null);
+  const [metadata, setMetadata] = useState<NoteMetadata | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [navVersion, setNavVersion] = useState(0);
+  const [imagePaths, setImagePaths] = useState<string[]>([]);
+  const articleRef = useRef<HTMLElement>(null);
+  const { activeRepo, isReady } = useRepos();
+  const noteIndex = useNoteMetadata();
+
+  // Wikilinks resolve against the sidebar's files, the repo's images
+  // (which the sidebar leaves out) and the notes' aliases
+  const resolver = useMemo(() => {
+    const aliases = Object.fromEntries(
+      Object.entries(noteIndex).map(([notePath, note]) => [notePath, note.aliases]),
+    );
+    return createNoteResolver([...sidebarPaths(activeRepo?.sidebar), ...imagePaths], {
+      rootPath: activeRepo?.rootPath,
+      aliases,
+    });
+  }, [activeRepo?.sidebar, activeRepo?.rootPath, imagePaths, noteIndex]);
+
+  const rootPath = activeRepo?.rootPath;
+  const calloutAliases = activeRepo?.config?.config.callouts;
+
+  // Embedded notes are rendered the same way, relative to their own path
+  const renderNote = useCallback(
+    (body: string, notePath: string, { embedded = false }: { embedded?: boolean } = {}) => {
+      // Math is set aside first so markdown can't mangle it
+      const { markdown, math } = extractMath(body);
+      return (
+        <ReactMarkdown
+          remarkPlugins={[
+            remarkGfm,
+            [remarkMath, { math }],
+            [remarkWikiLinks, { resolver, from: safeDecode(notePath), rootPath }],
+            // Only the page's own headings get ids (and so permalinks and
+            // table of contents entries); embedded ones would repeat them
+            ...(embedded ? [] : [remarkHeadingIds]),
+          ]}
+          components={{
+            ...renderers,
+            a: createLinkRenderer(notePath, rootPath),
+            img: createImageRenderer(notePath, rootPath),
+            blockquote: createBlockquoteRenderer(calloutAliases),
+          }}
+        >
+          {markdown}
+        </ReactMarkdown>
+      );
+    },
+    [resolver, rootPath, calloutAliases],
+  );
+
+  // Refetch when the active repo or its ref changes
+  useEffect(() => {
+    const onNavUpdated = () => setNavVersion((v) => v + 1);
+    window.addEventListener("docurepo:nav-updated", onNavUpdated);
+    return () => window.removeEventListener("docurepo:nav-updated", onNavUpdated);
+  }, []);
+
+  const activeProvider = activeRepo?.provider;
+  const activeHost = activeRepo?.host;
+  const activeOwner = activeRepo?.owner;
+  const activeName = activeRepo?.name;
+  const activeRef = activeRepo?.ref;
+  const activeRootPath = activeRepo?.rootPath;
 
   useEffect(() => {
     const filePath = path ?? slug;
@@ -151,6 +309,8 @@ export default function MarkdownViewer({
       setError("No file path provided to MarkdownViewer.");
       return;
     }
+    // Saved repos are still being read
+    if (!(owner && repo) && !isReady) return;
 
     let mounted = true;
     setLoading(true);
@@ -158,27 +318,44 @@ export default function MarkdownViewer({
 
     (async () => {
       try {
-        let o = owner;
-        let r = repo;
-
-        if (!o || !r) {
-          const storedOwner = localStorage.getItem("docurepo:repo_owner");
-          const storedRepo = localStorage.getItem("docurepo:repo_name");
-          o = o ?? storedOwner ?? undefined;
-          r = r ?? storedRepo ?? undefined;
-        }
-
-        if (!o || !r) {
+        // Explicit owner/repo props always refer to a GitHub repo
+        const location: RepoLocation | null =
+          owner && repo
+            ? { provider: "github", host: GITHUB_HOST, owner, name: repo }
+            : activeProvider && activeHost && activeOwner && activeName
+              ? { provider: activeProvider, host: activeHost, owner: activeOwner, name: activeName }
+              : null;
+
+        if (!location) {
           throw new Error(
             "Repository owner/name not configured. Provide `owner` and `repo` props or save a repo via the startup modal."
           );
         }
 
-        const md = await fetchMarkdown(o, r, filePath);
+        const ref =
+          gitRef ??
+          (owner && repo ? undefined : activeRef) ??
+          (await getContentSource(location).getDefaultBranch(location.owner, location.name));
+
+        const md = await loadRepoFile(location, filePath, { ref });
 
         if (!mounted) return;
-        setContent(md);
-        trackRecentNote(filePath, md);
+        const note = parseNote(md);
+        setContent(note.body);
+        setMetadata(note.metadata);
+        trackRecentNote(filePath, note.body, note.metadata);
+        markNoteSeen(location, filePath);
+        indexNoteMetadata(location, filePath, note);
+
+        // Image embeds (![[diagram.png]]) can point anywhere in the tree
+        const tree = await loadRepoTree(location, { ref }).catch(() => []);
+        if (mounted) {
+          setImagePaths(
+            scopeTree(tree, owner && repo ? undefined : activeRootPath)
+              .filter((entry) => entry.type === "blob" && isImagePath(entry.path))
+              .map((entry) => entry.path),
+          );
+        }
       } catch (err) {
         if (!mounted) return;
         setError(err instanceof Error ? err.message : String(err));
@@ -190,12 +367,23 @@ export default function MarkdownViewer({
     return () => {
       mounted = false;
     };
-  }, [owner, repo, path, slug]);
-
-  const allRenderers = {
-    ...renderers,
-    img: createImageRenderer(path, slug),
-  };
+  }, [
+    owner,
+    repo,
+    gitRef,
+    path,
+    slug,
+    navVersion,
+    isReady,
+    activeProvider,
+    activeHost,
+    activeOwner,
+    activeName,
+    activeRef,
+    activeRootPath,
+  ]);
+
+  const notePath = path ?? slug ?? "";
 
   return (
     <div className={className ?? "max-w-none"}>
@@ -206,11 +394,18 @@ export default function MarkdownViewer({
           {error}
         </div>
       ) : content ? (
-        <article className="markdown-body">
-          <ReactMarkdown remarkPlugins={[remarkGfm]} components={allRenderers}>
-            {content}
-          </ReactMarkdown>
-        </article>
+        <div className="flex gap-10">
+          <div className="min-w-0 flex-1">
+            <article ref={articleRef} className="markdown-body">
+              {metadata && <NoteHeader metadata={metadata} showTitle={!startsWithTitle(content)} />}
+              <NoteEmbedContext.Provider value={{ chain: [safeDecode(notePath)], renderNote }}>
+                {renderNote(content, notePath)}
+              </NoteEmbedContext.Provider>
+            </article>
+            <BacklinksPanel path={safeDecode(notePath)} />
+          </div>
+          <TableOfContents containerRef={articleRef} contentKey={content} />
+        </div>
       ) : (
         <div className="text-sm text-muted-foreground">No note to display.</div>
       )}
@@ -218,12 +413,37 @@ export default function MarkdownViewer({
   );
 }
 
+// Clear the note's "What's new" badge once it has been read
+function markNoteSeen(location: RepoLocation, filePath: string) {
+  try {
+    markChangesSeen(repoId(location), [decodeURIComponent(filePath)]);
+  } catch {
+    // Malformed path; nothing to clear
+  }
+}
+
+// Remember the note's frontmatter and tags for the sidebar, search and tag pages
+function indexNoteMetadata(location: RepoLocation, filePath: string, note: ParsedNote) {
+  try {
+    recordNoteMetadata(repoId(location), { [decodeURIComponent(filePath)]: indexEntry(note) });
+  } catch {
+    // Malformed path; nothing to index
+  }
+}
+
+// A note with its own "# Title" doesn't need the frontmatter title repeated
+function startsWithTitle(body: string): boolean {
+  return /^\s*#\s/.test(body);
+}
+
 // Track recent notes in localStorage
-function trackRecentNote(filePath: string, content: string) {
+function trackRecentNote(filePath: string, content: string, metadata: NoteMetadata) {
   try {
     const decodedPath = decodeURIComponent(filePath);
     const title =
-      decodedPath.split("/").pop()?.replace(/\.md$/, "") || decodedPath;
+      metadata.title ||
+      decodedPath.split("/").pop()?.replace(/\.md$/, "") ||
+      decodedPath;
     const recentNote = {
       path: filePath,
       title,
@@ -13,12 +13,13 @@ interface CalloutProps extends ParsedCallout {
 
 export function Callout({
   type,
+  variant,
   title,
   children,
   collapsible,
   collapsed: initialCollapsed,
 }: CalloutProps) {
-  const config = CALLOUT_TYPES[type] || CALLOUT_TYPES.note;
+  const config = CALLOUT_TYPES[variant] || CALLOUT_TYPES.note;
   const Icon = config.icon;
   const displayTitle = title || type.charAt(0).toUpperCase() + type.slice(1);
   const [isCollapsed, setIsCollapsed] = useState(initialCollapsed);
@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, Link2 } from "lucide-react";
+import { useRepos } from "@/components/repo";
+import { getShareUrl } from "@/components/share";
+import { cn } from "@/lib/utils";
+
+type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+interface HeadingProps extends React.ComponentPropsWithoutRef<"h1"> {
+  level: HeadingLevel;
+}
+
+/**
+ * A note heading with a permalink that appears on hover. Clicking it
+ * copies a link to this section (a share link when the page has one).
+ */
+export function Heading({ level, id, children, className, ...props }: HeadingProps) {
+  const Tag = `h${level}` as const;
+  const { activeRepo } = useRepos();
+  const [copied, setCopied] = useState(false);
+
+  if (!id) {
+    return (
+      <Tag className={className} {...props}>
+        {children}
+      </Tag>
+    );
+  }
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    window.history.replaceState(null, "", `#${id}`);
+    try {
+      await navigator.clipboard.writeText(`${getShareUrl(activeRepo).split("#")[0]}#${id}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+    }
+  };
+
+  return (
+    <Tag id={id} className={cn(className, "markdown-heading")} {...props}>
+      {children}
+      <a
+        href={`#${id}`}
+        className="heading-permalink"
+        onClick={handleCopy}
+        aria-label="Copy link to this section"
+        title={copied ? "Copied" : "Copy link to this section"}
+      >
+        {copied ? <Check size={14} /> : <Link2 size={14} />}
+      </a>
+    </Tag>
+  );
+}
+
+/** react-markdown renderer for `<h{level}>`. */
+export function headingRenderer(level: HeadingLevel) {
+  return function MarkdownHeading(props: React.ComponentPropsWithoutRef<"h1">) {
+    return <Heading level={level} {...props} />;
+  };
+}
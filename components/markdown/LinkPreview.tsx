@@ -0,0 +1,135 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { FileText } from "lucide-react";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { useRepos } from "@/components/repo";
+import { loadRepoFile } from "@/lib/content-cache";
+import { parseNote, type ParsedNote } from "@/lib/frontmatter";
+import { leadSection, noteSection } from "@/lib/headings";
+import { repoId, type RepoLocation } from "@/lib/sources";
+import { NoteEmbedContext } from "./NoteEmbed";
+import { NoteHeader } from "./NoteHeader";
+
+// Resting on a link this long opens (and only then loads) its preview
+const OPEN_DELAY = 500;
+const CLOSE_DELAY = 150;
+
+// Parsed notes by "repo@ref:path", shared by every link on the page, so a
+// note is read once however often (or from however many links) it's hovered
+const previews = new Map<string, Promise<ParsedNote>>();
+
+if (typeof window !== "undefined") {
+  // Another repo, ref or a refresh can change any note
+  window.addEventListener("docurepo:nav-updated", () => previews.clear());
+}
+
+// Links inside a preview don't open previews of their own
+const InPreviewContext = createContext(false);
+
+interface LinkPreviewProps {
+  /** Note the link points to */
+  path: string;
+  /** Heading (text or slug) the link points to */
+  heading?: string;
+  /** The link */
+  children: React.ReactElement;
+}
+
+/**
+ * Shows a card with the linked note's title, frontmatter and opening
+ * section (or the linked section) while the link is hovered.
+ */
+export function LinkPreview({ path, heading, children }: LinkPreviewProps) {
+  const inPreview = useContext(InPreviewContext);
+  if (inPreview) return children;
+
+  return (
+    <HoverCard openDelay={OPEN_DELAY} closeDelay={CLOSE_DELAY}>
+      <HoverCardTrigger asChild>{children}</HoverCardTrigger>
+      <HoverCardContent align="start" className="w-[26rem] max-w-[calc(100vw-2rem)] p-0 overflow-hidden">
+        <InPreviewContext.Provider value={true}>
+          <NotePreview path={path} heading={heading} />
+        </InPreviewContext.Provider>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+function NotePreview({ path, heading }: { path: string; heading?: string }) {
+  const context = useContext(NoteEmbedContext);
+  const { activeRepo } = useRepos();
+  const [note, setNote] = useState<ParsedNote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!activeRepo) return;
+
+    let cancelled = false;
+    loadPreview(activeRepo, activeRepo.ref, path)
+      .then((loaded) => {
+        if (!cancelled) setNote(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeRepo, path]);
+
+  const name = path.split("/").pop()?.replace(/\.md$/i, "") ?? path;
+  const section = note && (heading ? noteSection(note.body, heading) : leadSection(note.body));
+  // The note's own "# Title" becomes the card's title rather than repeating under it
+  const { title: bodyTitle, rest } = heading || !section ? { title: undefined, rest: section } : splitTitle(section);
+  const title = note?.metadata.title || bodyTitle || name;
+
+  return (
+    <div className="markdown-body link-preview">
+      <div className="link-preview-title">
+        <FileText size={13} />
+        <span className="truncate">{title}</span>
+      </div>
+
+      {error ? (
+        <p className="link-preview-status">Couldn&apos;t load a preview: {error}</p>
+      ) : !note ? (
+        <p className="link-preview-status">Loading…</p>
+      ) : (
+        <>
+          <NoteHeader metadata={note.metadata} showTitle={false} />
+          {rest === null ? (
+            <p className="link-preview-status">No heading &quot;{heading}&quot; in this note</p>
+          ) : (
+            rest?.trim() &&
+            context?.renderNote && (
+              <NoteEmbedContext.Provider value={{ chain: [...context.chain, path], renderNote: context.renderNote }}>
+                {context.renderNote(rest, path, { embedded: true })}
+              </NoteEmbedContext.Provider>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/* Helpers */
+
+function loadPreview(repo: RepoLocation, ref: string, path: string): Promise<ParsedNote> {
+  const key = `${repoId(repo)}@${ref}:${path}`;
+  let preview = previews.get(key);
+  if (!preview) {
+    preview = loadRepoFile(repo, path, { ref }).then(parseNote);
+    // Failures aren't kept, so hovering again retries
+    preview.catch(() => previews.delete(key));
+    previews.set(key, preview);
+  }
+  return preview;
+}
+
+function splitTitle(section: string): { title?: string; rest: string } {
+  const match = /^\s*#[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*(?:\r?\n|$)/.exec(section);
+  return match ? { title: match[1], rest: section.slice(match[0].length) } : { rest: section };
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import katex from "katex";
+import { Check, Copy } from "lucide-react";
+import { tokenizeMath } from "@/lib/math";
+import { cn } from "@/lib/utils";
+import "katex/dist/katex.min.css";
+
+interface MathExpressionProps {
+  tex: string;
+  /** `$$…$$`: centred on its own line, with a copy button */
+  display?: boolean;
+}
+
+/**
+ * A LaTeX expression rendered with KaTeX. Equations take the text colour
+ * around them, so they follow the theme. Copying a selection that includes
+ * equations copies their LaTeX.
+ *
+ * Only `<span>`s are rendered, so expressions can sit inside a `<p>`.
+ */
+export function MathExpression({ tex, display = false }: MathExpressionProps) {
+  const [copied, setCopied] = useState(false);
+
+  const rendered = useMemo(() => {
+    try {
+      return { html: katex.renderToString(tex, { displayMode: display, throwOnError: true }) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Failed to render equation" };
+    }
+  }, [tex, display]);
+
+  // Registers a copy handler that swaps equations for their source
+  useEffect(() => {
+    import("katex/contrib/copy-tex").catch((err) => console.warn("Failed to load copy-tex:", err));
+  }, []);
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    // Flashcards flip on click
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(display ? `$$\n${tex}\n$$` : `$${tex}$`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  if (rendered.error !== undefined) {
+    if (!display) {
+      return (
+        <span
+          className="rounded border border-red-200 bg-red-50/10 px-1 font-mono text-[85%] text-red-400"
+          title={`Failed to render equation: ${rendered.error}`}
+        >
+          ${tex}$
+        </span>
+      );
+    }
+
+    return (
+      <span className="block rounded-md border border-red-200 bg-red-50/10 p-4 my-4 text-left">
+        <span className="block text-sm text-red-400 mb-2">Failed to render equation:</span>
+        <span className="block font-mono text-xs text-red-300 whitespace-pre-wrap overflow-auto">{rendered.error}</span>
+        <span className="block font-mono text-xs text-muted-foreground mt-2 whitespace-pre overflow-auto bg-muted/50 p-2 rounded">
+          {tex}
+        </span>
+      </span>
+    );
+  }
+
+  if (!display) {
+    return <span className="math-inline" dangerouslySetInnerHTML={{ __html: rendered.html }} />;
+  }
+
+  return (
+    <span className="math-display group relative block my-4">
+      <span
+        className="block overflow-x-auto overflow-y-hidden py-1 [&_.katex-display]:m-0"
+        dangerouslySetInnerHTML={{ __html: rendered.html }}
+      />
+      <button
+        type="button"
+        className={cn(
+          "absolute top-0 right-0 rounded p-1 text-muted-foreground transition-opacity hover:text-foreground hover:bg-muted",
+          "opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+        )}
+        onClick={handleCopy}
+        title={copied ? "Copied!" : "Copy LaTeX"}
+        aria-label="Copy LaTeX"
+      >
+        {copied ? <Check size={14} /> : <Copy size={14} />}
+      </button>
+    </span>
+  );
+}
+
+/** Plain text with `$…$` / `$$…$$` math (and `\$` for a dollar), e.g. a flashcard's question. */
+export function MathText({ text }: { text: string }) {
+  const tokens = useMemo(() => tokenizeMath(text), [text]);
+
+  return (
+    <>
+      {tokens.map((token, i) =>
+        typeof token === "string" ? (
+          <React.Fragment key={i}>{token.replace(/\\\$/g, "$")}</React.Fragment>
+        ) : (
+          <MathExpression key={i} tex={token.tex} display={token.display} />
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { ChevronRight, FileText } from "lucide-react";
+import { useRepos } from "@/components/repo";
+import { loadRepoFile } from "@/lib/content-cache";
+import { parseNote } from "@/lib/frontmatter";
+import { headingSlug, noteSection } from "@/lib/headings";
+import { noteHref } from "@/lib/wikilinks";
+
+/** Embeds inside embeds stop here, even without a cycle */
+const MAX_EMBED_DEPTH = 4;
+
+interface NoteEmbedContextValue {
+  /** Notes (and "path#heading" sections) already being shown, outermost first */
+  chain: string[];
+  /**
+   * Renders a note's markdown with the viewer's plugins and renderers.
+   * `embedded` leaves its headings without ids.
+   */
+  renderNote: (body: string, path: string, options?: { embedded?: boolean }) => React.ReactNode;
+}
+
+export const NoteEmbedContext = createContext<NoteEmbedContextValue | null>(null);
+
+interface NoteEmbedProps {
+  path: string;
+  heading?: string;
+}
+
+/**
+ * A note, or one of its sections, shown inside another note (`![[Note]]`).
+ * Loads once scrolled near, and can be collapsed to its title.
+ */
+export function NoteEmbed({ path, heading }: NoteEmbedProps) {
+  const context = useContext(NoteEmbedContext);
+  const { activeRepo } = useRepos();
+  const ref = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [isOpen, setIsOpen] = useState(true);
+  const [body, setBody] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const key = heading ? `${path}#${headingSlug(heading)}` : path;
+  const chain = context?.chain ?? [];
+  const renderNote = context?.renderNote;
+  const tooDeep = chain.length >= MAX_EMBED_DEPTH;
+  const repeats =
+    tooDeep ||
+    chain.includes(key) ||
+    (!heading && chain.some((shown) => shown === path || shown.startsWith(`${path}#`)));
+
+  // Wait until the embed is scrolled near before reading the note
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || repeats) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [repeats]);
+
+  useEffect(() => {
+    if (!isVisible || !activeRepo) return;
+
+    let cancelled = false;
+    loadRepoFile(activeRepo, path, { ref: activeRepo.ref })
+      .then((text) => {
+        if (cancelled) return;
+        const note = parseNote(text).body;
+        const section = heading ? noteSection(note, heading) : note;
+        if (section === null) setError(`No heading "${heading}" in this note`);
+        else setBody(section);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVisible, activeRepo, path, heading]);
+
+  const name = path.split("/").pop()?.replace(/\.md$/i, "") ?? path;
+  const title = heading ? `${name} > ${heading}` : name;
+
+  if (repeats) {
+    return (
+      <div className="note-embed note-embed-notice">
+        <Link href={noteHref(path, heading)}>{title}</Link>
+        {tooDeep ? " is nested too deeply to embed here" : " is already shown above"}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={ref} className="note-embed">
+      <div className="note-embed-title">
+        <button
+          type="button"
+          className="note-embed-toggle"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          aria-label={isOpen ? `Collapse ${title}` : `Expand ${title}`}
+        >
+          <ChevronRight size={14} style={{ transform: isOpen ? "rotate(90deg)" : undefined }} />
+        </button>
+        <FileText size={13} />
+        <Link href={noteHref(path, heading)}>{title}</Link>
+      </div>
+
+      {isOpen && (
+        <div className="note-embed-content">
+          {error ? (
+            <p className="note-embed-status">Couldn&apos;t embed this note: {error}</p>
+          ) : body === null ? (
+            <p className="note-embed-status">Loading…</p>
+          ) : (
+            renderNote && (
+              <NoteEmbedContext.Provider value={{ chain: [...chain, key], renderNote }}>
+                {renderNote(body, path, { embedded: true })}
+              </NoteEmbedContext.Provider>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import React from "react";
+import Link from "next/link";
+import { CalendarDays, Tag, User } from "lucide-react";
+import type { NoteMetadata } from "@/lib/frontmatter";
+import { tagHref } from "@/lib/tags";
+
+interface NoteHeaderProps {
+  metadata: NoteMetadata;
+  /** Show `metadata.title` as the page title (skipped when the note has its own h1) */
+  showTitle: boolean;
+}
+
+/** Page header built from a note's frontmatter. */
+export function NoteHeader({ metadata, showTitle }: NoteHeaderProps) {
+  const { title, aliases, tags, date, authors } = metadata;
+  const hasDetails = !!date || authors.length > 0 || tags.length > 0;
+
+  if (!(showTitle && title) && !hasDetails && aliases.length === 0) return null;
+
+  return (
+    <header className="note-header">
+      {showTitle && title && <h1 className="note-header-title">{title}</h1>}
+
+      {aliases.length > 0 && (
+        <p className="note-header-aliases">Also known as {aliases.join(", ")}</p>
+      )}
+
+      {hasDetails && (
+        <div className="note-header-details">
+          {date && (
+            <span className="note-header-detail">
+              <CalendarDays size={13} />
+              <time dateTime={date}>{formatDate(date)}</time>
+            </span>
+          )}
+          {authors.length > 0 && (
+            <span className="note-header-detail">
+              <User size={13} />
+              {authors.join(", ")}
+            </span>
+          )}
+          {tags.length > 0 && (
+            <span className="note-header-detail">
+              <Tag size={13} />
+              <span className="note-header-tags">
+                {tags.map((tag) => (
+                  <Link key={tag} href={tagHref(tag)} className="note-tag">
+                    #{tag}
+                  </Link>
+                ))}
+              </span>
+            </span>
+          )}
+        </div>
+      )}
+    </header>
+  );
+}
+
+// Dates without a time are shown as calendar dates, whatever the time zone
+function formatDate(date: string): string {
+  const plain = /^\d{4}-\d{2}-\d{2}$/.test(date);
+  const parsed = new Date(plain ? `${date}T00:00:00` : date);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    ...(plain ? {} : { hour: "numeric", minute: "2-digit" }),
+  });
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ListTree } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetClose, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { cn, safeDecode } from "@/lib/utils";
+
+interface TocEntry {
+  id: string;
+  text: string;
+  level: number;
+}
+
+interface TableOfContentsProps {
+  /** The rendered note; its headings (not those of embedded notes) are listed */
+  containerRef: React.RefObject<HTMLElement | null>;
+  /** Changes whenever the note is re-rendered */
+  contentKey: unknown;
+}
+
+// A heading counts as current once it is this close to the top of the window
+const ACTIVE_OFFSET = 96;
+
+/**
+ * "On this page" list of the note's headings, highlighting the section
+ * being read. A right rail on wide screens, a sheet behind a floating
+ * button on smaller ones.
+ */
+export function TableOfContents({ containerRef, contentKey }: TableOfContentsProps) {
+  const [entries, setEntries] = useState<TocEntry[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  // Read headings once the note has rendered, and honour a #section in the URL
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const container = containerRef.current;
+      if (!container) return;
+      setEntries(readHeadings(container));
+
+      const hash = safeDecode(window.location.hash.slice(1));
+      if (hash) document.getElementById(hash)?.scrollIntoView();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [containerRef, contentKey]);
+
+  useEffect(() => {
+    if (entries.length === 0) return;
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        let current: string | null = null;
+        for (const { id } of entries) {
+          const top = document.getElementById(id)?.getBoundingClientRect().top;
+          if (top === undefined || top > ACTIVE_OFFSET) break;
+          current = id;
+        }
+        setActiveId(current ?? entries[0].id);
+      });
+    };
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", update);
+    };
+  }, [entries]);
+
+  if (entries.length < 2) return null;
+
+  const minLevel = Math.min(...entries.map((entry) => entry.level));
+
+  const list = (wrap: (link: React.ReactElement) => React.ReactNode) => (
+    <ul className="space-y-1 text-[13px]">
+      {entries.map(({ id, text, level }) => (
+        <li key={id} style={{ paddingLeft: `${(level - minLevel) * 0.75}rem` }}>
+          {wrap(
+            <a
+              href={`#${id}`}
+              onClick={(e) => {
+                e.preventDefault();
+                document.getElementById(id)?.scrollIntoView({ behavior: "smooth" });
+                window.history.replaceState(null, "", `#${id}`);
+              }}
+              className={cn(
+                "block truncate py-0.5 border-l-2 pl-2 -ml-px transition-colors",
+                id === activeId
+                  ? "border-primary text-foreground"
+                  : "border-transparent text-muted-foreground hover:text-foreground",
+              )}
+              aria-current={id === activeId ? "location" : undefined}
+            >
+              {text}
+            </a>,
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <>
+      <nav className="hidden xl:block w-56 shrink-0" aria-label="On this page">
+        <div className="sticky top-6 max-h-[calc(100vh-3rem)] overflow-auto border-l border-border/60">
+          <p className="pl-3 mb-2 text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+            On this page
+          </p>
+          <div className="pl-1">{list((link) => link)}</div>
+        </div>
+      </nav>
+
+      <div className="xl:hidden fixed bottom-4 right-4 z-40">
+        <Sheet>
+          <SheetTrigger asChild>
+            <Button variant="outline" size="icon" className="rounded-full shadow-md" aria-label="On this page">
+              <ListTree />
+            </Button>
+          </SheetTrigger>
+          <SheetContent side="right" className="w-72">
+            <SheetHeader>
+              <SheetTitle>On this page</SheetTitle>
+            </SheetHeader>
+            <nav className="px-4 pb-4 overflow-auto border-l border-border/60 mx-4" aria-label="On this page">
+              {list((link) => <SheetClose asChild>{link}</SheetClose>)}
+            </nav>
+          </SheetContent>
+        </Sheet>
+      </div>
+    </>
+  );
+}
+
+// Headings of the note itself (embedded notes' have no ids), skipping the
+// one h1 title
+function readHeadings(container: HTMLElement): TocEntry[] {
+  const headings = Array.from(container.querySelectorAll<HTMLElement>("h1[id], h2[id], h3[id], h4[id]"))
+    .map((heading) => ({
+      id: heading.id,
+      text: headingText(heading),
+      level: Number(heading.tagName[1]),
+    }));
+
+  const titles = headings.filter((heading) => heading.level === 1);
+  return titles.length === 1 ? headings.filter((heading) => heading.level > 1) : headings;
+}
+
+// Heading text without its permalink, and with equations as they read
+// rather than doubled up with their MathML
+function headingText(heading: HTMLElement): string {
+  const copy = heading.cloneNode(true) as HTMLElement;
+  copy.querySelectorAll(".heading-permalink, .katex-mathml").forEach((node) => node.remove());
+  return copy.textContent?.trim() ?? "";
+}
@@ -90,13 +90,22 @@ export const CALLOUT_TYPES: Record<string, CalloutConfig> = {
 
 export interface ParsedCallout {
   type: string;
+  /** Built-in type whose style is used; differs from `type` for aliases */
+  variant: string;
   title: string | null;
   isCallout: boolean;
   collapsible: boolean;
   collapsed: boolean;
 }
 
-export function parseCallout(children: React.ReactNode): ParsedCallout {
+/**
+ * Detect an Obsidian callout. `aliases` maps custom types to built-in ones
+ * (from the repo's `.docurepo.yml`).
+ */
+export function parseCallout(
+  children: React.ReactNode,
+  aliases?: Record<string, string>,
+): ParsedCallout {
   const text = extractFirstParagraphText(children);
   const trimmedText = text.trim();
 
@@ -105,17 +114,19 @@ export function parseCallout(children: React.ReactNode): ParsedCallout {
 
   if (match) {
     const type = match[1].toLowerCase();
+    const variant = aliases?.[type] ?? type;
     const collapsibleIndicator = match[2];
     const title = match[3].trim() || null;
-    const isCallout = type in CALLOUT_TYPES;
+    const isCallout = variant in CALLOUT_TYPES;
     const collapsible = collapsibleIndicator === "+" || collapsibleIndicator === "-";
     const collapsed = collapsibleIndicator === "-";
 
-    return { type, title, isCallout, collapsible, collapsed };
+    return { type, variant, title, isCallout, collapsible, collapsed };
   }
 
   return {
     type: "",
+    variant: "",
     title: null,
     isCallout: false,
     collapsible: false,
@@ -0,0 +1,28 @@
+import { createSlugger } from "@/lib/headings";
+
+// The few mdast fields this plugin touches
+interface MdNode {
+  type: string;
+  value?: string;
+  children?: MdNode[];
+  data?: { hProperties?: Record<string, unknown> };
+}
+
+/** Gives every heading a GitHub-style `id`, unique within the note. */
+export function remarkHeadingIds() {
+  return (tree: MdNode) => {
+    const slug = createSlugger();
+    const visit = (node: MdNode) => {
+      if (node.type === "heading") {
+        node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id: slug(plainText(node)) } };
+        return;
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+
+function plainText(node: MdNode): string {
+  return node.value ?? node.children?.map(plainText).join("") ?? "";
+}
@@ -0,0 +1,99 @@
+import { MATH_PLACEHOLDER_RE, restoreMath, type MathSpan } from "@/lib/math";
+
+export interface RemarkMathOptions {
+  /** Expressions cut out of the note by `extractMath` */
+  math: MathSpan[];
+}
+
+// The few mdast fields this plugin touches
+interface MdNode {
+  type: string;
+  value?: string;
+  url?: string;
+  alt?: string;
+  title?: string;
+  children?: MdNode[];
+  data?: { hName?: string; hProperties?: Record<string, unknown> };
+}
+
+/**
+ * Turns the placeholders left by `extractMath` into
+ * `<span data-math="…">` elements for the `span` renderer, with
+ * `data-display` on `$$…$$`. Display math on its own in a paragraph is
+ * lifted out as a `<div>`. Placeholders anywhere else (code, link URLs)
+ * get their original `$…$` text back.
+ */
+export function remarkMath({ math }: RemarkMathOptions) {
+  return (tree: MdNode) => {
+    visit(tree);
+  };
+
+  function visit(node: MdNode) {
+    if (!node.children) return;
+    node.children = node.children.flatMap((child) => {
+      if (child.type === "text") return splitText(child.value ?? "");
+      restore(child);
+      visit(child);
+      return child.type === "paragraph" ? liftDisplayMath(child) : [child];
+    });
+  }
+
+  function splitText(text: string): MdNode[] {
+    const nodes: MdNode[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(MATH_PLACEHOLDER_RE)) {
+      const span = math[Number(match[1])];
+      if (!span) continue;
+
+      const start = match.index ?? 0;
+      if (start > last) nodes.push({ type: "text", value: text.slice(last, start) });
+      nodes.push({
+        type: span.display ? "math" : "inlineMath",
+        // Kept as the node's text, so heading ids include the formula
+        value: span.tex,
+        data: {
+          hName: "span",
+          hProperties: { dataMath: span.tex, ...(span.display && { dataDisplay: "true" }) },
+        },
+      });
+      last = start + match[0].length;
+    }
+
+    if (last < text.length) nodes.push({ type: "text", value: text.slice(last) });
+    return nodes;
+  }
+
+  function restore(node: MdNode) {
+    if (node.value) node.value = restoreMath(node.value, math);
+    if (node.url) node.url = restoreMath(node.url, math);
+    if (node.alt) node.alt = restoreMath(node.alt, math);
+    if (node.title) node.title = restoreMath(node.title, math);
+  }
+}
+
+// Split a paragraph around its display math so the equations are blocks
+function liftDisplayMath(paragraph: MdNode): MdNode[] {
+  const children = paragraph.children ?? [];
+  if (!children.some((child) => child.type === "math")) return [paragraph];
+
+  const blocks: MdNode[] = [];
+  let run: MdNode[] = [];
+  const flush = () => {
+    if (run.some((node) => node.type !== "text" || node.value?.trim())) {
+      blocks.push({ ...paragraph, children: run });
+    }
+    run = [];
+  };
+
+  for (const child of children) {
+    if (child.type === "math") {
+      flush();
+      blocks.push({ ...child, data: { ...child.data, hName: "div" } });
+    } else {
+      run.push(child);
+    }
+  }
+  flush();
+  return blocks;
+}
@@ -0,0 +1,164 @@
+import { headingSlug } from "@/lib/headings";
+import {
+  WIKILINK_RE,
+  embedSize,
+  isImagePath,
+  parseWikiLink,
+  repoPathHref,
+  wikiLinkLabel,
+  type NoteResolver,
+} from "@/lib/wikilinks";
+import { normalizeRootPath } from "@/lib/utils";
+
+export interface RemarkWikiLinksOptions {
+  resolver: NoteResolver;
+  /** Path of the note being rendered, for same-folder matches */
+  from?: string;
+  /** Notes root, which image embeds are written relative to */
+  rootPath?: string;
+}
+
+// The few mdast fields this plugin touches
+interface MdNode {
+  type: string;
+  value?: string;
+  url?: string;
+  alt?: string;
+  children?: MdNode[];
+  data?: { hName?: string; hProperties?: Record<string, unknown> };
+}
+
+// Wikilinks are never parsed inside these
+const SKIP = new Set(["link", "linkReference", "code", "inlineCode", "html", "definition"]);
+
+/**
+ * Turns `[[Note]]`, `[[Note#Heading]]` and `[[Note|text]]` into in-app
+ * links. Links to notes that don't exist render as a muted span.
+ *
+ * `![[image.png|400]]` becomes an image. `![[Note]]` and
+ * `![[Note#Heading]]` become `<div data-embed="path">` blocks (lifted out
+ * of their paragraph) for the `div` renderer to fill in.
+ */
+export function remarkWikiLinks({ resolver, from, rootPath }: RemarkWikiLinksOptions) {
+  const root = normalizeRootPath(rootPath);
+
+  return (tree: MdNode) => {
+    visit(tree);
+  };
+
+  function visit(node: MdNode) {
+    if (!node.children || SKIP.has(node.type)) return;
+    const embeds = node.type === "paragraph";
+    node.children = node.children.flatMap((child) => {
+      if (child.type === "text") return splitText(child.value ?? "", embeds);
+      visit(child);
+      return child.type === "paragraph" ? liftEmbeds(child) : [child];
+    });
+  }
+
+  function splitText(text: string, embeds: boolean): MdNode[] {
+    const nodes: MdNode[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(WIKILINK_RE)) {
+      const [raw, bang, inner] = match;
+      const node = bang ? embedNode(inner, embeds) : wikiLinkNode(inner);
+      if (!node) continue;
+
+      const start = match.index ?? 0;
+      if (start > last) nodes.push({ type: "text", value: text.slice(last, start) });
+      nodes.push(node);
+      last = start + raw.length;
+    }
+
+    if (last < text.length) nodes.push({ type: "text", value: text.slice(last) });
+    return nodes;
+  }
+
+  function wikiLinkNode(inner: string): MdNode | null {
+    const link = parseWikiLink(inner);
+    const children = [{ type: "text", value: wikiLinkLabel(link) }];
+
+    // [[#Heading]] points into the note itself
+    if (!link.target) {
+      if (!link.heading) return null;
+      return { type: "link", url: `#${headingSlug(link.heading)}`, children, data: linkData("wikilink") };
+    }
+
+    const path = resolver.resolve(link.target, from);
+    if (path) {
+      return { type: "link", url: repoPathHref(path, link.heading), children, data: linkData("wikilink") };
+    }
+
+    return {
+      type: "wikiLink",
+      children,
+      data: {
+        hName: "span",
+        hProperties: {
+          className: ["wikilink", "wikilink-unresolved"],
+          title: `No note named "${link.target}"`,
+        },
+      },
+    };
+  }
+
+  // Notes can only be embedded where a block fits, i.e. straight inside a paragraph
+  function embedNode(inner: string, blocks: boolean): MdNode | null {
+    const link = parseWikiLink(inner);
+    const path = link.target ? resolver.resolve(link.target, from) : from || null;
+    if (!path) return link.target ? wikiLinkNode(inner) : null;
+
+    if (isImagePath(path)) {
+      const size = embedSize(link.alias);
+      const relative = root && path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path;
+      const name = relative.split("/").pop() ?? relative;
+      return {
+        type: "image",
+        url: `/${relative}`,
+        alt: size ? name : (link.alias ?? name),
+        data: { hProperties: { ...size } },
+      };
+    }
+
+    if (!blocks || !/\.md$/i.test(path)) return wikiLinkNode(inner);
+
+    return {
+      type: "wikiEmbed",
+      data: {
+        hName: "div",
+        hProperties: { dataEmbed: path, ...(link.heading && { dataHeading: link.heading }) },
+      },
+    };
+  }
+}
+
+// Split a paragraph around its note embeds so they aren't nested in a <p>
+function liftEmbeds(paragraph: MdNode): MdNode[] {
+  const children = paragraph.children ?? [];
+  if (!children.some((child) => child.type === "wikiEmbed")) return [paragraph];
+
+  const blocks: MdNode[] = [];
+  let run: MdNode[] = [];
+  const flush = () => {
+    if (run.some((node) => node.type !== "text" || node.value?.trim())) {
+      blocks.push({ ...paragraph, children: run });
+    }
+    run = [];
+  };
+
+  for (const child of children) {
+    if (child.type === "wikiEmbed") {
+      flush();
+      blocks.push(child);
+    } else {
+      run.push(child);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function linkData(className: string): MdNode["data"] {
+  return { hProperties: { className: [className] } };
+}
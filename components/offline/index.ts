@@ -0,0 +1,3 @@
+// Offline mode exports
+export { OfflineProvider, useOffline } from "./offline-provider";
+export type { FolderSyncState } from "./offline-provider";
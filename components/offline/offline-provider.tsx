@@ -0,0 +1,192 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useRepos, type Repo } from "@/components/repo";
+
+export interface FolderSyncState {
+  status: "syncing" | "ready" | "error";
+  done: number;
+  total: number;
+  error?: string;
+}
+
+interface OfflineContextType {
+  /** Browser connectivity (navigator.onLine). */
+  isOnline: boolean;
+  /** True once the service worker is registered (production builds only). */
+  isInstalled: boolean;
+  /** Folders of the active repo marked "available offline". */
+  offlineFolders: string[];
+  folderSync: Record<string, FolderSyncState>;
+  isAvailableOffline: (path: string) => boolean;
+  toggleFolderOffline: (path: string) => void;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+/** Offline folders per repo id, e.g. { "owner/notes": ["STU 1201"] } */
+const STORAGE_KEY = "docurepo:offline-folders";
+
+function subscribeOnline(callback: () => void) {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+function isInFolder(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(`${folder}/`);
+}
+
+export function OfflineProvider({ children }: { children: React.ReactNode }) {
+  const { activeRepo } = useRepos();
+  const isOnline = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true,
+  );
+  const [isInstalled, setIsInstalled] = useState(false);
+  const [foldersByRepo, setFoldersByRepo] = useState<Record<string, string[]>>({});
+  const [folderSync, setFolderSync] = useState<Record<string, FolderSyncState>>({});
+
+  // Load persisted folder selection on mount
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) setFoldersByRepo(JSON.parse(saved));
+    } catch (e) {
+      console.warn("Failed to load offline folders:", e);
+    }
+  }, []);
+
+  // Register the service worker. Skipped in development so stale cached
+  // pages never hide code changes.
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => setIsInstalled(true))
+      .catch((e) => console.warn("Service worker registration failed:", e));
+  }, []);
+
+  const persistFolders = useCallback((next: Record<string, string[]>) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (e) {
+      console.warn("Failed to save offline folders:", e);
+    }
+  }, []);
+
+  const updateSync = useCallback((folder: string, state: FolderSyncState) => {
+    setFolderSync((prev) => ({ ...prev, [folder]: state }));
+  }, []);
+
+  // Download a folder's notes/decks into the content cache and ask the
+  // service worker to store their pages.
+  const syncFolder = useCallback(async (repo: Repo, folder: string) => {
+    updateSync(folder, { status: "syncing", done: 0, total: 0 });
+    try {
+      const { prefetchRepoFolder } = await import("@/lib/content-cache");
+      const paths = await prefetchRepoFolder(
+        repo,
+        folder,
+        { ref: repo.ref },
+        (done, total) => updateSync(folder, { status: "syncing", done, total }),
+      );
+
+      const pageUrls = paths
+        .filter((p) => p.endsWith(".md"))
+        .map((p) => `/notes/${encodeURI(p)}`);
+      navigator.serviceWorker?.controller?.postMessage({ type: "precache", urls: pageUrls });
+
+      updateSync(folder, { status: "ready", done: paths.length, total: paths.length });
+    } catch (e) {
+      updateSync(folder, {
+        status: "error",
+        done: 0,
+        total: 0,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }, [updateSync]);
+
+  const offlineFolders = useMemo(
+    () => (activeRepo ? foldersByRepo[activeRepo.id] ?? [] : []),
+    [activeRepo, foldersByRepo],
+  );
+
+  const toggleFolderOffline = useCallback((path: string) => {
+    if (!activeRepo) return;
+
+    const current = foldersByRepo[activeRepo.id] ?? [];
+    const enabled = current.includes(path);
+    const nextFolders = enabled ? current.filter((f) => f !== path) : [...current, path];
+    const next = { ...foldersByRepo, [activeRepo.id]: nextFolders };
+
+    setFoldersByRepo(next);
+    persistFolders(next);
+
+    if (!enabled) {
+      syncFolder(activeRepo, path);
+    } else {
+      setFolderSync((prev) => {
+        const rest = { ...prev };
+        delete rest[path];
+        return rest;
+      });
+    }
+  }, [activeRepo, foldersByRepo, persistFolders, syncFolder]);
+
+  const isAvailableOffline = useCallback(
+    (path: string) => offlineFolders.some((folder) => isInFolder(path, folder)),
+    [offlineFolders],
+  );
+
+  // Keep offline folders current: re-sync after a repo refresh or switch.
+  // Unchanged files are skipped by sha, so this is cheap when nothing changed.
+  useEffect(() => {
+    const onNavUpdated = () => {
+      if (!activeRepo || !navigator.onLine) return;
+      for (const folder of foldersByRepo[activeRepo.id] ?? []) {
+        syncFolder(activeRepo, folder);
+      }
+    };
+
+    window.addEventListener("docurepo:nav-updated", onNavUpdated);
+    return () => window.removeEventListener("docurepo:nav-updated", onNavUpdated);
+  }, [activeRepo, foldersByRepo, syncFolder]);
+
+  const value: OfflineContextType = {
+    isOnline,
+    isInstalled,
+    offlineFolders,
+    folderSync,
+    isAvailableOffline,
+    toggleFolderOffline,
+  };
+
+  return (
+    <OfflineContext.Provider value={value}>
+      {children}
+    </OfflineContext.Provider>
+  );
+}
+
+export function useOffline() {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error("useOffline must be used within an OfflineProvider");
+  }
+  return context;
+}
@@ -2,3 +2,6 @@
 export { RepoProvider, useRepos } from "./repo-provider";
 export { RepoSwitcher } from "./repo-switcher";
 export type { Repo } from "./repo-provider";
+export { useRepoChanges } from "./use-repo-changes";
+export { useNoteMetadata } from "./use-note-metadata";
+export { RepoConfigStatus } from "./repo-config-status";
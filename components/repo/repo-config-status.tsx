@@ -0,0 +1,34 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useRepos } from "./repo-provider";
+
+/**
+ * Validation problems in the active repo's `.docurepo.yml`. Renders
+ * nothing when the file is valid or missing.
+ */
+export function RepoConfigStatus({ className }: { className?: string }) {
+  const { activeRepo } = useRepos();
+  const result = activeRepo?.config;
+
+  if (!result || result.errors.length === 0) return null;
+
+  const count = result.errors.length;
+
+  return (
+    <details className={cn("text-[11px] text-destructive", className)}>
+      <summary className="flex items-center gap-1.5 cursor-pointer list-none">
+        <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate">
+          {result.path}: {count} problem{count !== 1 ? "s" : ""}
+        </span>
+      </summary>
+      <ul className="mt-1 ml-[18px] space-y-0.5 text-muted-foreground">
+        {result.errors.map((error) => (
+          <li key={error} className="break-words">{error}</li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -1,13 +1,50 @@
 "use client";
 
-import React, { createContext, useContext, useEffect, useState, useCallback } from "react";
-import { buildSidebar, type GitTreeEntry, type NavItem } from "@/lib/utils";
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from "react";
+import {
+  buildSidebar,
+  normalizeRootPath,
+  scopeTree,
+  type GitTreeEntry,
+  type NavItem,
+  type TreeProgress,
+} from "@/lib/utils";
+import { GITHUB_HOST, isLiveLocalSource, repoId, type RepoLocation } from "@/lib/sources";
+import {
+  applySidebarConfig,
+  filterHidden,
+  findConfigPath,
+  parseRepoConfig,
+  type RepoConfigResult,
+} from "@/lib/repo-config";
+import {
+  DEFAULT_SIDEBAR_SORT,
+  loadNoteWeights,
+  sortSidebar,
+  type NoteWeights,
+  type SidebarSort,
+} from "@/lib/sidebar-sort";
+import { THEMES, useTheme } from "@/components/theme/theme-provider";
+import { CALLOUT_TYPES } from "@/components/markdown/callout-utils";
 
-export interface Repo {
+export interface Repo extends RepoLocation {
+  /**
+   * "owner/name" on GitHub, "host/owner/name" elsewhere (see `repoId`),
+   * with ":rootPath" appended when only a subfolder is mounted
+   */
   id: string;
-  owner: string;
-  name: string;
   url: string;
+  /** Branch, tag or commit the repo is read from (e.g. "main"). */
+  ref: string;
+  /**
+   * Folder the notes live in (e.g. "courses/STU 1201"), for notes kept
+   * inside a larger repo. Sidebar, search and stats only see this folder.
+   */
+  rootPath?: string;
+  /** Parsed `.docurepo.yml`, with any validation errors */
+  config?: RepoConfigResult;
+  /** Sidebar sort preference (defaults to natural name order) */
+  sort?: SidebarSort;
   addedAt: number;
   isActive: boolean;
   sidebar?: NavItem[];
@@ -15,17 +52,26 @@ export interface Repo {
     fileCount: number;
     folderCount: number;
     lastFetched: number;
+    /** Root tree sha at the last fetch, when the source reports one */
+    treeSha?: string;
   };
 }
 
 interface RepoContextType {
   repos: Repo[];
   activeRepo: Repo | null;
-  addRepo: (owner: string, name: string, url: string) => Promise<void>;
+  addRepo: (location: RepoLocation, url: string, ref?: string, rootPath?: string) => Promise<void>;
   removeRepo: (id: string) => void;
   setActiveRepo: (id: string) => void;
   refreshRepo: (id: string) => Promise<void>;
+  setRepoRef: (id: string, ref: string) => Promise<void>;
+  /** Change a repo's sidebar sort and rebuild its sidebar */
+  setRepoSort: (id: string, sort: SidebarSort) => Promise<void>;
   isLoading: boolean;
+  /** False until saved repos have been read from localStorage */
+  isReady: boolean;
+  /** Subtree walk progress while loading a repo too large for one tree request */
+  treeProgress: TreeProgress | null;
 }
 
 const RepoContext = createContext<RepoContextType | undefined>(undefined);
@@ -35,10 +81,74 @@ const STORAGE_KEYS = {
   activeRepoId: "docurepo:active_repo_id",
 };
 
+// Repos saved before refs were tracked were always read from "main".
+const LEGACY_REF = "main";
+
+// Refresh the active repo on window focus once it's older than this
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+// The same repo can be added once per root folder
+function repoEntryId(location: RepoLocation, rootPath: string): string {
+  return rootPath ? `${repoId(location)}:${rootPath}` : repoId(location);
+}
+
+/** Read and validate the repo's `.docurepo.yml`, if it has one. */
+async function loadRepoConfig(
+  location: RepoLocation,
+  tree: GitTreeEntry[],
+  ref: string,
+  rootPath?: string,
+): Promise<RepoConfigResult | undefined> {
+  const path = findConfigPath(tree, rootPath);
+  if (!path) return undefined;
+
+  try {
+    const { loadRepoFile } = await import("@/lib/content-cache");
+    const text = await loadRepoFile(location, path, { ref });
+    return parseRepoConfig(path, text, {
+      themes: THEMES.map(theme => theme.id),
+      callouts: Object.keys(CALLOUT_TYPES),
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { path, config: {}, errors: [`Could not read the file: ${message}`] };
+  }
+}
+
+/** Sidebar for the repo's root folder, sorted, with its config applied. */
+async function repoSidebar(
+  location: RepoLocation,
+  tree: GitTreeEntry[],
+  options: { ref: string; rootPath?: string; config?: RepoConfigResult; sort?: SidebarSort },
+): Promise<NavItem[]> {
+  const { ref, rootPath, config, sort = DEFAULT_SIDEBAR_SORT } = options;
+  const visible = filterHidden(tree, config?.config, rootPath);
+
+  let weights: NoteWeights | undefined;
+  if (sort.mode === "frontmatter") {
+    weights = await loadNoteWeights(location, visible, { ref, rootPath });
+  }
+
+  const sorted = sortSidebar(buildSidebar(visible, rootPath), sort, weights);
+  return applySidebarConfig(sorted, config?.config, rootPath);
+}
+
+/** Note and folder counts for the repo's root folder. */
+function treeStats(tree: GitTreeEntry[], rootPath?: string) {
+  const scoped = scopeTree(tree, rootPath);
+  return {
+    fileCount: scoped.filter(entry => entry.type === "blob" && entry.path.endsWith(".md")).length,
+    folderCount: scoped.filter(entry => entry.type === "tree").length,
+  };
+}
+
 export function RepoProvider({ children }: { children: React.ReactNode }) {
   const [repos, setRepos] = useState<Repo[]>([]);
   const [activeRepo, setActiveRepoState] = useState<Repo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [treeProgress, setTreeProgress] = useState<TreeProgress | null>(null);
+  const { applyRepoTheme } = useTheme();
 
   // Load repos from localStorage on mount
   useEffect(() => {
@@ -47,7 +157,13 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
       const savedActiveId = localStorage.getItem(STORAGE_KEYS.activeRepoId);
       
       if (savedRepos) {
-        const parsedRepos = JSON.parse(savedRepos) as Repo[];
+        const parsedRepos = (JSON.parse(savedRepos) as Repo[]).map(r => ({
+          ...r,
+          ref: r.ref || LEGACY_REF,
+          // Repos saved before other hosts were supported are all GitHub
+          provider: r.provider || "github",
+          host: r.host || GITHUB_HOST,
+        }));
         setRepos(parsedRepos);
         
         if (savedActiveId) {
@@ -59,9 +175,17 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
       }
     } catch (e) {
       console.warn("Failed to load repos:", e);
+    } finally {
+      setIsReady(true);
     }
   }, []);
 
+  // The active repo's `.docurepo.yml` may set a default theme
+  const repoTheme = activeRepo?.config?.config.theme;
+  useEffect(() => {
+    if (repoTheme) applyRepoTheme(repoTheme);
+  }, [repoTheme, applyRepoTheme]);
+
   // Persist repos to localStorage
   const persistRepos = useCallback((newRepos: Repo[]) => {
     try {
@@ -71,31 +195,49 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  const addRepo = useCallback(async (owner: string, name: string, url: string) => {
+  const addRepo = useCallback(async (
+    location: RepoLocation,
+    url: string,
+    ref?: string,
+    rootPath?: string,
+  ) => {
     setIsLoading(true);
     try {
       // Import dynamically to avoid server-side issues
-      const { fetchRepoTree } = await import("@/lib/utils");
+      const { getContentSource } = await import("@/lib/sources");
+      const { refreshRepoTree } = await import("@/lib/content-cache");
+      const { provider, host, owner, name } = location;
       
-      const tree = await fetchRepoTree(owner, name);
-      const sidebar = buildSidebar(tree as GitTreeEntry[]);
-      
-      // Calculate stats
-      const files = tree.filter((entry: GitTreeEntry) => entry.type === "blob" && entry.path.endsWith(".md"));
-      const folders = tree.filter((entry: GitTreeEntry) => entry.type === "tree");
+      const resolvedRef = ref || await getContentSource(location).getDefaultBranch(owner, name);
+      const { entries: tree, sha: treeSha } = await refreshRepoTree(location, {
+        ref: resolvedRef,
+        onProgress: setTreeProgress,
+      });
+      const root = normalizeRootPath(rootPath);
+      if (root && !tree.some(entry => entry.type === "tree" && entry.path === root)) {
+        throw new Error(`Folder "${root}" was not found in ${owner}/${name}@${resolvedRef}.`);
+      }
+      const config = await loadRepoConfig(location, tree, resolvedRef, root);
+      const sidebar = await repoSidebar(location, tree, { ref: resolvedRef, rootPath: root, config });
       
       const newRepo: Repo = {
-        id: `${owner}/${name}`,
+        id: repoEntryId(location, root),
+        provider,
+        host,
         owner,
         name,
+        label: location.label,
         url,
+        ref: resolvedRef,
+        rootPath: root || undefined,
+        config,
         addedAt: Date.now(),
         isActive: true,
         sidebar,
         stats: {
-          fileCount: files.length,
-          folderCount: folders.length,
+          ...treeStats(filterHidden(tree, config?.config, root), root),
           lastFetched: Date.now(),
+          treeSha,
         },
       };
 
@@ -116,14 +258,36 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
       localStorage.setItem("docurepo:sidebar", JSON.stringify(sidebar));
       localStorage.setItem("docurepo:repo_owner", owner);
       localStorage.setItem("docurepo:repo_name", name);
+      localStorage.setItem("docurepo:repo_ref", resolvedRef);
+      localStorage.setItem("docurepo:repo_root", root);
+      localStorage.setItem("docurepo:repo_provider", provider);
+      localStorage.setItem("docurepo:repo_host", host);
       localStorage.setItem("docurepo:repo", url);
       
     } finally {
       setIsLoading(false);
+      setTreeProgress(null);
     }
   }, [persistRepos]);
 
   const removeRepo = useCallback((id: string) => {
+    const removed = repos.find(r => r.id === id);
+    // Keep the stored folder/zip while another root of it is still mounted
+    const stillMounted = !!removed && repos.some(
+      r => r.id !== id && repoId(r) === repoId(removed),
+    );
+    if (removed?.provider === "local" && !stillMounted) {
+      import("@/lib/sources").then(({ forgetLocalSource }) =>
+        forgetLocalSource(removed.owner, removed.name),
+      );
+    }
+    import("@/lib/change-feed").then(({ clearChanges }) => clearChanges(id));
+    if (removed && !stillMounted) {
+      import("@/lib/note-metadata").then(({ forgetNoteMetadata }) =>
+        forgetNoteMetadata(repoId(removed)),
+      );
+    }
+
     setRepos(prev => {
       const newRepos = prev.filter(r => r.id !== id);
       persistRepos(newRepos);
@@ -140,7 +304,7 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
       
       return newRepos;
     });
-  }, [activeRepo, persistRepos]);
+  }, [repos, activeRepo, persistRepos]);
 
   const setActiveRepo = useCallback((id: string) => {
     setRepos(prev => {
@@ -159,6 +323,10 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
         localStorage.setItem("docurepo:sidebar", JSON.stringify(active.sidebar || []));
         localStorage.setItem("docurepo:repo_owner", active.owner);
         localStorage.setItem("docurepo:repo_name", active.name);
+        localStorage.setItem("docurepo:repo_ref", active.ref);
+        localStorage.setItem("docurepo:repo_root", active.rootPath ?? "");
+        localStorage.setItem("docurepo:repo_provider", active.provider);
+        localStorage.setItem("docurepo:repo_host", active.host);
         localStorage.setItem("docurepo:repo", active.url);
         
         // Notify sidebar to refresh
@@ -169,29 +337,97 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
     });
   }, [persistRepos]);
 
-  const refreshRepo = useCallback(async (id: string) => {
-    setIsLoading(true);
+  // Revalidate a repo's tree, optionally switching it to a different ref.
+  // Unchanged trees (a 304 on GitHub) only bump `lastFetched`.
+  const reloadRepo = useCallback(async (
+    id: string,
+    nextRef?: string,
+    { background = false }: { background?: boolean } = {},
+  ) => {
+    if (!background) setIsLoading(true);
     try {
       const repo = repos.find(r => r.id === id);
       if (!repo) return;
 
-      const { fetchRepoTree } = await import("@/lib/utils");
-      const tree = await fetchRepoTree(repo.owner, repo.name);
-      const sidebar = buildSidebar(tree as GitTreeEntry[]);
-      
-      const files = tree.filter((entry: GitTreeEntry) => entry.type === "blob" && entry.path.endsWith(".md"));
-      const folders = tree.filter((entry: GitTreeEntry) => entry.type === "tree");
+      const ref = nextRef ?? repo.ref;
+      const { refreshRepoTree } = await import("@/lib/content-cache");
+      const result = await refreshRepoTree(repo, {
+        ref,
+        onProgress: background ? undefined : setTreeProgress,
+      });
+      // Entries mounting other folders of the same repo share its cached
+      // tree, so compare with the sha this entry last built from
+      const changed = result.sha && repo.stats?.treeSha
+        ? result.sha !== repo.stats.treeSha
+        : result.changed;
+      const unchanged = !changed && ref === repo.ref && !!repo.sidebar;
+
+      if (unchanged) {
+        setRepos(prev => {
+          const newRepos = prev.map(r =>
+            r.id === id && r.stats
+              ? { ...r, stats: { ...r.stats, lastFetched: Date.now() } }
+              : r
+          );
+          persistRepos(newRepos);
+          if (activeRepo?.id === id) {
+            const updated = newRepos.find(r => r.id === id);
+            if (updated) setActiveRepoState(updated);
+          }
+          return newRepos;
+        });
+        return;
+      }
+
+      // Feed "What's new" — only for a refresh of the same ref, since a
+      // branch switch would report every difference between branches.
+      // Other folders mounted from this ref share the cached tree and won't
+      // see the change on their own refresh, so they get it now too.
+      if (result.changed && result.previous && ref === repo.ref) {
+        const { diffTrees, recordChanges } = await import("@/lib/change-feed");
+        const mounts = repos.filter(r => repoId(r) === repoId(repo) && r.ref === ref);
+        for (const mount of mounts) {
+          recordChanges(
+            mount.id,
+            diffTrees(scopeTree(result.previous, mount.rootPath), scopeTree(result.entries, mount.rootPath)),
+          );
+        }
+      }
+
+      // Frontmatter of changed notes (or of every note, on another ref) is
+      // re-read when they are next opened
+      const { forgetNoteMetadata } = await import("@/lib/note-metadata");
+      if (ref !== repo.ref) {
+        forgetNoteMetadata(repoId(repo));
+      } else if (result.changed && result.previous) {
+        const { diffTrees } = await import("@/lib/change-feed");
+        forgetNoteMetadata(
+          repoId(repo),
+          diffTrees(result.previous, result.entries).map(change => change.path),
+        );
+      }
+
+      const tree = result.entries;
+      const config = await loadRepoConfig(repo, tree, ref, repo.rootPath);
+      const sidebar = await repoSidebar(repo, tree, {
+        ref,
+        rootPath: repo.rootPath,
+        config,
+        sort: repo.sort,
+      });
 
       setRepos(prev => {
         const newRepos = prev.map(r => 
           r.id === id 
             ? {
                 ...r,
+                ref,
                 sidebar,
+                config,
                 stats: {
-                  fileCount: files.length,
-                  folderCount: folders.length,
+                  ...treeStats(filterHidden(tree, config?.config, repo.rootPath), repo.rootPath),
                   lastFetched: Date.now(),
+                  treeSha: result.sha,
                 },
               }
             : r
@@ -204,16 +440,96 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
           if (updated) {
             setActiveRepoState(updated);
             localStorage.setItem("docurepo:sidebar", JSON.stringify(sidebar));
+            localStorage.setItem("docurepo:repo_ref", ref);
+            window.dispatchEvent(new CustomEvent("docurepo:nav-updated"));
           }
         }
         
         return newRepos;
       });
     } finally {
-      setIsLoading(false);
+      if (!background) {
+        setIsLoading(false);
+        setTreeProgress(null);
+      }
     }
   }, [repos, activeRepo, persistRepos]);
 
+  // Background refresh: when the window regains focus and the active repo
+  // hasn't been checked for a while, revalidate it quietly. Skipped offline,
+  // near the rate limit, and for zips (which never change). Local folders
+  // are re-read on every focus, to pick up notes edited in another app.
+  const backgroundRefreshing = useRef(false);
+  useEffect(() => {
+    const onFocus = async () => {
+      if (document.visibilityState === "hidden" || backgroundRefreshing.current) return;
+      if (!activeRepo) return;
+
+      if (!isLiveLocalSource(activeRepo)) {
+        if (activeRepo.provider === "local" || !navigator.onLine) return;
+        if (Date.now() - (activeRepo.stats?.lastFetched ?? 0) < STALE_AFTER_MS) return;
+
+        const { LOW_WATER_MARK, getRateLimit } = await import("@/lib/github-rate-limit");
+        const quota = getRateLimit();
+        if (activeRepo.provider === "github" && quota && quota.remaining <= LOW_WATER_MARK) return;
+      }
+
+      backgroundRefreshing.current = true;
+      try {
+        await reloadRepo(activeRepo.id, undefined, { background: true });
+      } catch (e) {
+        console.warn("Background refresh failed:", e);
+      } finally {
+        backgroundRefreshing.current = false;
+      }
+    };
+
+    window.addEventListener("focus", onFocus);
+    document.addEventListener("visibilitychange", onFocus);
+    return () => {
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("visibilitychange", onFocus);
+    };
+  }, [activeRepo, reloadRepo]);
+
+  const refreshRepo = useCallback((id: string) => reloadRepo(id), [reloadRepo]);
+
+  // Re-sorting only rebuilds the sidebar from the cached tree
+  const setRepoSort = useCallback(async (id: string, sort: SidebarSort) => {
+    const repo = repos.find(r => r.id === id);
+    if (!repo) return;
+
+    const { loadRepoTree } = await import("@/lib/content-cache");
+    const tree = await loadRepoTree(repo, { ref: repo.ref });
+    const sidebar = await repoSidebar(repo, tree, {
+      ref: repo.ref,
+      rootPath: repo.rootPath,
+      config: repo.config,
+      sort,
+    });
+
+    setRepos(prev => {
+      const newRepos = prev.map(r => r.id === id ? { ...r, sort, sidebar } : r);
+      persistRepos(newRepos);
+
+      if (activeRepo?.id === id) {
+        const updated = newRepos.find(r => r.id === id);
+        if (updated) {
+          setActiveRepoState(updated);
+          localStorage.setItem("docurepo:sidebar", JSON.stringify(sidebar));
+          window.dispatchEvent(new CustomEvent("docurepo:nav-updated"));
+        }
+      }
+
+      return newRepos;
+    });
+  }, [repos, activeRepo, persistRepos]);
+
+  const setRepoRef = useCallback(
+    (id: string, ref: string) => reloadRepo(id, ref),
+    [reloadRepo],
+  );
+
   const value: RepoContextType = {
     repos,
     activeRepo,
@@ -221,7 +537,11 @@ export function RepoProvider({ children }: { children: React.ReactNode }) {
     removeRepo,
     setActiveRepo,
     refreshRepo,
+    setRepoRef,
+    setRepoSort,
     isLoading,
+    isReady,
+    treeProgress,
   };
 
   return (
@@ -1,16 +1,22 @@
 "use client";
 
-import { useRepos } from "./repo-provider";
+import { useState } from "react";
+import { useRepos, type Repo } from "./repo-provider";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
-import { BookOpen, Check, ChevronDown, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { BookOpen, Check, ChevronDown, GitBranch, Plus, RefreshCw, Tag, Trash2 } from "lucide-react";
+import type { RepoRefs } from "@/lib/utils";
+import { GITHUB_HOST, repoLabel } from "@/lib/sources";
 
 interface RepoSwitcherProps {
   onAddRepo?: () => void;
@@ -37,11 +43,18 @@ export function RepoSwitcher({ onAddRepo }: RepoSwitcherProps) {
             </div>
             <div className="flex flex-col items-start text-left overflow-hidden">
               <span className="text-sm font-medium truncate w-full">
-                {activeRepo ? activeRepo.name : "Select Repository"}
+                {activeRepo ? <RepoLabel repo={activeRepo} /> : "Select Repository"}
               </span>
-              {activeRepo && (
+              {activeRepo && activeRepo.provider === "local" ? (
                 <span className="text-xs text-muted-foreground truncate w-full">
+                  {activeRepo.owner === "zip" ? "Zip archive" : "Local folder"}
+                </span>
+              ) : activeRepo && (
+                <span className="text-xs text-muted-foreground truncate w-full">
+                  {activeRepo.host !== GITHUB_HOST && `${activeRepo.host}/`}
                   {activeRepo.owner}
+                  <span className="mx-1 opacity-40">@</span>
+                  {activeRepo.ref}
                 </span>
               )}
             </div>
@@ -59,13 +72,14 @@ export function RepoSwitcher({ onAddRepo }: RepoSwitcherProps) {
           <DropdownMenuItem
             key={repo.id}
             onClick={() => setActiveRepo(repo.id)}
+            title={repo.id}
             className="flex items-center justify-between cursor-pointer"
           >
             <div className="flex items-center gap-2 flex-1 min-w-0">
               <span className="text-xs text-muted-foreground w-4">
                 {index + 1}
               </span>
-              <span className="truncate flex-1">{repo.name}</span>
+              <span className="truncate flex-1"><RepoLabel repo={repo} /></span>
             </div>
             
             <div className="flex items-center gap-1">
@@ -92,6 +106,8 @@ export function RepoSwitcher({ onAddRepo }: RepoSwitcherProps) {
         )}
         
         <DropdownMenuSeparator />
+
+        {activeRepo && activeRepo.provider !== "local" && <RefSwitcher repo={activeRepo} />}
         
         <DropdownMenuItem
           onClick={onAddRepo}
@@ -104,3 +120,89 @@ export function RepoSwitcher({ onAddRepo }: RepoSwitcherProps) {
     </DropdownMenu>
   );
 }
+
+/** Repo name, followed by the mounted folder when only a subfolder is shown. */
+function RepoLabel({ repo }: { repo: Repo }) {
+  return (
+    <>
+      {repoLabel(repo)}
+      {repo.rootPath && (
+        <span className="text-muted-foreground font-normal">
+          <span className="mx-1 opacity-40">/</span>
+          {repo.rootPath}
+        </span>
+      )}
+    </>
+  );
+}
+
+/** Submenu listing the active repo's branches and tags, loaded on first open. */
+function RefSwitcher({ repo }: { repo: Repo }) {
+  const { setRepoRef, isLoading } = useRepos();
+  const [refs, setRefs] = useState<RepoRefs | null>(null);
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRefs = async () => {
+    if (loadedFor === repo.id) return;
+    setLoadedFor(repo.id);
+    setRefs(null);
+    setError(null);
+    try {
+      const { getContentSource } = await import("@/lib/sources");
+      setRefs(await getContentSource(repo).listRefs(repo.owner, repo.name));
+    } catch (e) {
+      setLoadedFor(null);
+      setError(e instanceof Error ? e.message : "Failed to load branches");
+    }
+  };
+
+  const renderRef = (name: string, icon: React.ReactNode) => (
+    <DropdownMenuItem
+      key={name}
+      onClick={() => setRepoRef(repo.id, name)}
+      disabled={isLoading}
+      className="flex items-center gap-2 cursor-pointer"
+    >
+      {icon}
+      <span className="truncate flex-1">{name}</span>
+      {name === repo.ref && <Check className="h-4 w-4 text-primary" />}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <DropdownMenuSub onOpenChange={(open) => open && loadRefs()}>
+      <DropdownMenuSubTrigger className="cursor-pointer">
+        <GitBranch className="mr-2 h-4 w-4" />
+        <span className="truncate">{repo.ref}</span>
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="w-56 max-h-80 overflow-y-auto">
+        {error ? (
+          <DropdownMenuItem disabled className="text-muted-foreground">
+            {error}
+          </DropdownMenuItem>
+        ) : !refs ? (
+          <DropdownMenuItem disabled className="text-muted-foreground">
+            Loading…
+          </DropdownMenuItem>
+        ) : (
+          <>
+            <DropdownMenuLabel className="text-xs font-medium text-muted-foreground">
+              Branches
+            </DropdownMenuLabel>
+            {refs.branches.map((name) => renderRef(name, <GitBranch className="h-3.5 w-3.5" />))}
+            {refs.tags.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs font-medium text-muted-foreground">
+                  Tags
+                </DropdownMenuLabel>
+                {refs.tags.map((name) => renderRef(name, <Tag className="h-3.5 w-3.5" />))}
+              </>
+            )}
+          </>
+        )}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+}
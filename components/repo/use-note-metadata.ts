@@ -0,0 +1,20 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { repoId } from "@/lib/sources";
+import {
+  NO_METADATA,
+  getNoteMetadata,
+  subscribeNoteMetadata,
+  type MetadataIndex,
+} from "@/lib/note-metadata";
+import { useRepos } from "./repo-provider";
+
+/** Frontmatter metadata of the active repo's notes, keyed by path. */
+export function useNoteMetadata(): MetadataIndex {
+  const { activeRepo } = useRepos();
+  const id = activeRepo ? repoId(activeRepo) : null;
+
+  const getSnapshot = useCallback(() => (id ? getNoteMetadata(id) : NO_METADATA), [id]);
+  return useSyncExternalStore(subscribeNoteMetadata, getSnapshot, () => NO_METADATA);
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  NO_CHANGES,
+  getChanges,
+  subscribeChanges,
+  type TreeChange,
+} from "@/lib/change-feed";
+import { useRepos } from "./repo-provider";
+
+/** Unseen "What's new" changes for the active repo, newest first. */
+export function useRepoChanges(): TreeChange[] {
+  const { activeRepo } = useRepos();
+  const id = activeRepo?.id;
+
+  const getSnapshot = useCallback(() => (id ? getChanges(id) : NO_CHANGES), [id]);
+  return useSyncExternalStore(subscribeChanges, getSnapshot, () => NO_CHANGES);
+}
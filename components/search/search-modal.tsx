@@ -8,7 +8,11 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import Link from "next/link";
 import { useRepos } from "@/components/repo";
-import type { NavItem } from "@/lib/utils";
+import { RateLimitError, type NavItem } from "@/lib/utils";
+import { repoId } from "@/lib/sources";
+import { getNoteMetadata, indexEntry, recordNoteMetadata, searchableText } from "@/lib/note-metadata";
+import { noteTags } from "@/lib/tags";
+import { RateLimitStatus } from "@/components/settings";
 
 interface SearchResult {
   path: string;
@@ -25,6 +29,7 @@ export function SearchModal() {
   const [isSearching, setIsSearching] = useState(false);
   const [contentSearch, setContentSearch] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [rateLimitNotice, setRateLimitNotice] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
   const { activeRepo } = useRepos();
@@ -59,6 +64,7 @@ export function SearchModal() {
     }
 
     setIsSearching(true);
+    setRateLimitNotice(null);
     const searchTerm = query.toLowerCase();
 
     // Flatten sidebar to get all files
@@ -78,15 +84,29 @@ export function SearchModal() {
     };
     flattenNav(activeRepo.sidebar);
 
-    // Title search (always performed)
-    const titleResults = allFiles
-      .filter(({ item }) => item.title.toLowerCase().includes(searchTerm))
-      .map(({ item, breadcrumb }) => ({
+    // Title search (always performed), including frontmatter titles, aliases and tags
+    const noteMetadata = getNoteMetadata(repoId(activeRepo));
+    const titleResults: SearchResult[] = [];
+    for (const { item, breadcrumb } of allFiles) {
+      const metadata = noteMetadata[item.url];
+      const title = metadata?.title ?? item.title;
+      const matchesTitle = title.toLowerCase().includes(searchTerm) ||
+        item.title.toLowerCase().includes(searchTerm);
+      if (!matchesTitle && !searchableText(metadata).some((text) => text.includes(searchTerm))) {
+        continue;
+      }
+      titleResults.push({
         path: item.url,
-        title: item.title,
+        title,
         breadcrumb: breadcrumb.slice(0, -1), // Exclude the file itself from breadcrumb
+        // Say why a note matched when it wasn't by title
+        preview: matchesTitle || !metadata ? undefined : [
+          ...metadata.aliases,
+          ...noteTags(metadata).map((tag) => `#${tag}`),
+        ].join(" · "),
         matchesContent: false,
-      }));
+      });
+    }
 
     let finalResults = titleResults;
 
@@ -100,12 +120,16 @@ export function SearchModal() {
       
       for (const { item, breadcrumb } of filesToSearch.slice(0, 20)) {
         try {
-          const { fetchMarkdown } = await import("@/lib/utils");
-          const content = await fetchMarkdown(
-            activeRepo.owner,
-            activeRepo.name,
-            item.url
-          );
+          const { loadRepoFile } = await import("@/lib/content-cache");
+          const { parseNote } = await import("@/lib/frontmatter");
+          const note = parseNote(await loadRepoFile(
+            activeRepo,
+            item.url,
+            // Low priority: refused near the rate limit so browsing keeps working
+            { ref: activeRepo.ref, priority: "low" }
+          ));
+          recordNoteMetadata(repoId(activeRepo), { [item.url]: indexEntry(note) });
+          const content = note.body;
           
           if (content.toLowerCase().includes(searchTerm)) {
             const lines = content.split("\n");
@@ -115,13 +139,17 @@ export function SearchModal() {
             
             contentResults.push({
               path: item.url,
-              title: item.title,
+              title: note.metadata.title ?? item.title,
               breadcrumb: breadcrumb.slice(0, -1),
               preview: matchLine?.substring(0, 100).replace(/[#*`]/g, "").trim(),
               matchesContent: true,
             });
           }
         } catch (e) {
+          if (e instanceof RateLimitError) {
+            setRateLimitNotice(e.message);
+            break;
+          }
           // Skip files that can't be fetched
         }
       }
@@ -228,6 +256,12 @@ export function SearchModal() {
           </span>
         </div>
 
+        {rateLimitNotice && contentSearch && (
+          <div className="px-4 py-2 border-b text-xs text-destructive bg-destructive/5">
+            Content search paused. {rateLimitNotice}
+          </div>
+        )}
+
         {/* Results */}
         <div className="max-h-[400px] overflow-y-auto py-2">
           {!query && (
@@ -296,9 +330,12 @@ export function SearchModal() {
             <span>↑↓ navigate</span>
             <span>↵ select</span>
           </div>
-          <span>
-            {results.length > 0 && `${results.length} result${results.length === 1 ? "" : "s"}`}
-          </span>
+          <div className="flex items-center gap-3">
+            {contentSearch && <RateLimitStatus />}
+            <span>
+              {results.length > 0 && `${results.length} result${results.length === 1 ? "" : "s"}`}
+            </span>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,3 @@
+// Settings exports
+export { TokenSettings } from "./token-settings";
+export { RateLimitStatus } from "./rate-limit-status";
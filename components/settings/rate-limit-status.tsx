@@ -0,0 +1,45 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import Link from "next/link";
+import { Gauge } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  LOW_WATER_MARK,
+  formatResetTime,
+  getRateLimit,
+  subscribeRateLimit,
+} from "@/lib/github-rate-limit";
+
+/**
+ * Remaining GitHub API quota and reset time. Renders nothing until the
+ * first API response has reported its rate-limit headers.
+ */
+export function RateLimitStatus({ className }: { className?: string }) {
+  const state = useSyncExternalStore(subscribeRateLimit, getRateLimit, () => null);
+
+  if (!state) return null;
+
+  const low = state.remaining <= LOW_WATER_MARK;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1.5 text-[11px] tabular-nums",
+        low ? "text-destructive" : "text-muted-foreground/70",
+        className,
+      )}
+      title={`GitHub API: ${state.remaining} of ${state.limit} requests left, resets at ${formatResetTime(state.resetAt)}`}
+    >
+      <Gauge className="w-3 h-3 flex-shrink-0" />
+      <span className="truncate">
+        API {state.remaining}/{state.limit} · resets {formatResetTime(state.resetAt)}
+      </span>
+      {low && !state.authenticated && (
+        <Link href="/#github-access" className="underline underline-offset-2 flex-shrink-0">
+          Add token
+        </Link>
+      )}
+    </div>
+  );
+}
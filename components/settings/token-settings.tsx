@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, KeyRound, Loader2, Trash2 } from "lucide-react";
+import { useRepos } from "@/components/repo";
+import { cn } from "@/lib/utils";
+import {
+  TOKENS_UPDATED_EVENT,
+  loadTokens,
+  maskToken,
+  removeToken,
+  setToken,
+  type TokenMap,
+} from "@/lib/github-tokens";
+import {
+  GITHUB_HOST,
+  getContentSource,
+  repoId,
+  type RepoLocation,
+  type SourceProvider,
+} from "@/lib/sources";
+import { RateLimitStatus } from "./rate-limit-status";
+
+const TOKEN_PLACEHOLDERS: Partial<Record<SourceProvider, string>> = {
+  github: "ghp_… or github_pat_…",
+  gitlab: "glpat-…",
+};
+
+// ─── Token Row ─────────────────────────────────────────────────
+// One scope (the host or a single repo): shows the saved token, or an
+// input that validates against the API before saving.
+
+function TokenRow({
+  scope,
+  location,
+  label,
+  description,
+  saved,
+}: {
+  scope: string;
+  /** Where to validate the token; owner/name are set for repo scopes */
+  location: Pick<RepoLocation, "provider" | "host"> & { owner?: string; name?: string };
+  label: string;
+  description: string;
+  saved?: string;
+}) {
+  const [inputValue, setInputValue] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [account, setAccount] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const token = inputValue.trim();
+    if (!token) return;
+    setChecking(true);
+    setError(null);
+    try {
+      const { owner, name } = location;
+      const { login } = await getContentSource(location).validateToken(
+        token,
+        owner && name ? { owner, name } : undefined,
+      );
+      setToken(scope, token);
+      setAccount(login);
+      setInputValue("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Token check failed");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="py-3 border-b border-border/40 last:border-b-0">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm truncate">{label}</div>
+          <div className="text-[11px] text-muted-foreground/70">{description}</div>
+        </div>
+        {saved && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <span className="flex items-center gap-1 text-xs text-muted-foreground font-mono">
+              <Check className="w-3 h-3 text-primary" />
+              {maskToken(saved)}
+              {account && <span className="font-sans">· {account}</span>}
+            </span>
+            <button
+              type="button"
+              onClick={() => {
+                removeToken(scope);
+                setAccount(null);
+              }}
+              className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent/40 transition-colors"
+              aria-label={`Remove token for ${label}`}
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!saved && (
+        <div className="mt-2 flex items-center gap-1.5">
+          <input
+            type="password"
+            value={inputValue}
+            onChange={(e) => { setInputValue(e.target.value); setError(null); }}
+            onKeyDown={(e) => { if (e.key === "Enter") handleSave(); }}
+            placeholder={TOKEN_PLACEHOLDERS[location.provider] ?? "Access token"}
+            autoComplete="off"
+            className={cn(
+              "flex-1 px-2 py-1.5 text-xs rounded-md border bg-background font-mono",
+              "placeholder:text-muted-foreground/40",
+              "focus:outline-none focus:ring-1 focus:ring-ring",
+              error ? "border-destructive/50" : "border-border/50",
+            )}
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!inputValue.trim() || checking}
+            className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium rounded-md bg-primary text-primary-foreground disabled:opacity-40 hover:bg-primary/90 transition-colors"
+          >
+            {checking && <Loader2 className="w-3 h-3 animate-spin" />}
+            Verify & Save
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-1.5 text-[11px] text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// ─── Token Settings ────────────────────────────────────────────
+
+export function TokenSettings() {
+  const { repos } = useRepos();
+  const [tokens, setTokens] = useState<TokenMap>({});
+
+  const reload = useCallback(() => setTokens(loadTokens()), []);
+
+  // github.com is always listed; other hosts once a repo from them is added
+  const hosts = new Map<string, SourceProvider>([[GITHUB_HOST, "github"]]);
+  const remoteRepos = repos.filter((repo) => repo.provider !== "local");
+  for (const repo of remoteRepos) hosts.set(repo.host, repo.provider);
+
+  // Tokens are per repository, so folders mounted from the same repo share a row
+  const tokenRepos = new Map<string, RepoLocation>();
+  for (const repo of remoteRepos) tokenRepos.set(repoId(repo), repo);
+
+  useEffect(() => {
+    const timer = setTimeout(reload, 0);
+    window.addEventListener(TOKENS_UPDATED_EVENT, reload);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener(TOKENS_UPDATED_EVENT, reload);
+    };
+  }, [reload]);
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1">
+        <KeyRound className="w-3.5 h-3.5 text-muted-foreground" />
+        <h2 className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">
+          Repository Access
+        </h2>
+      </div>
+      <p className="text-xs text-muted-foreground/70 mb-3 leading-relaxed">
+        Tokens unlock private repositories and raise the API rate limit. They are
+        stored only in this browser. A read-only fine-grained token with
+        &quot;Contents&quot; access is enough on GitHub; use a
+        &quot;read_api&quot; token on GitLab.
+      </p>
+      <RateLimitStatus className="mb-2" />
+
+      {Array.from(hosts, ([host, provider]) => (
+        <TokenRow
+          key={host}
+          scope={host}
+          location={{ provider, host }}
+          label={hosts.size > 1 ? `All ${host} repositories` : "All repositories"}
+          description={`Used for every ${host} repo without its own token`}
+          saved={tokens[host]}
+        />
+      ))}
+      {Array.from(tokenRepos, ([scope, location]) => (
+        <TokenRow
+          key={scope}
+          scope={scope}
+          location={location}
+          label={scope}
+          description="Only used for this repository"
+          saved={tokens[scope]}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Link2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useRepos, type Repo } from "@/components/repo";
+import { buildShareUrl, shareTargetForRoute } from "@/lib/share-links";
+import { cn } from "@/lib/utils";
+
+/**
+ * Link to the current page that works in any browser: a share link that
+ * names the repo when the page is a note or flashcard folder, otherwise
+ * the plain URL.
+ */
+export function getShareUrl(repo: Repo | null): string {
+  const { origin, pathname, search, href } = window.location;
+  const target = shareTargetForRoute(pathname, new URLSearchParams(search));
+  if (!repo || !target) return href;
+  return buildShareUrl(repo, target, origin) ?? href;
+}
+
+/** Copies a share link for the current note or flashcard folder. */
+export function CopyLinkButton({ className }: { className?: string }) {
+  const { activeRepo } = useRepos();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(activeRepo));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+    }
+  };
+
+  const local = activeRepo?.provider === "local";
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={cn("h-7 text-xs text-muted-foreground", className)}
+      onClick={handleCopy}
+      title={local ? "Local notes only open on this computer" : "Copy a link that opens this repository"}
+    >
+      {copied ? <Check className="w-3.5 h-3.5 mr-1.5" /> : <Link2 className="w-3.5 h-3.5 mr-1.5" />}
+      {copied ? "Copied" : "Copy link"}
+    </Button>
+  );
+}
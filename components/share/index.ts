@@ -0,0 +1,3 @@
+// Share link exports
+export { CopyLinkButton, getShareUrl } from "./copy-link-button";
+export { SharedRepoLink } from "./shared-repo-link";
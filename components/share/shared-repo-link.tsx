@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { BookOpen, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useRepos } from "@/components/repo";
+import { SourceApiError } from "@/lib/utils";
+import { repoId } from "@/lib/sources";
+import {
+  parseSharedRepo,
+  repoWebUrl,
+  type SharedRepo,
+  type ShareTarget,
+} from "@/lib/share-links";
+
+interface SharedRepoLinkProps {
+  params: { owner: string; repo: string; ref: string };
+  search: { host?: string; provider?: string; root?: string };
+  target: ShareTarget;
+}
+
+/**
+ * Opens a share link: activates the linked repo, then continues to the
+ * regular note or flashcards route. Repos that aren't added yet are
+ * offered to the user first, and a link to another ref than the one the
+ * repo is saved with asks before switching it.
+ */
+export function SharedRepoLink({ params, search, target }: SharedRepoLinkProps) {
+  const router = useRouter();
+  const { repos, activeRepo, isReady, isLoading, addRepo, setActiveRepo, setRepoRef } = useRepos();
+  const [error, setError] = useState<string | null>(null);
+  // Private repos look missing without a token
+  const [needsToken, setNeedsToken] = useState(false);
+  const pending = useRef<string | null>(null);
+  // Whether to move the saved repo to the linked ref, once the user says
+  const [switchRef, setSwitchRef] = useState<boolean | null>(null);
+
+  const { shared, parseError } = useMemo(() => {
+    try {
+      return { shared: parseSharedRepo(params, search), parseError: null };
+    } catch (e) {
+      return { shared: null, parseError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [params, search]);
+
+  // An entry with the same folder, else any entry of the same repo (note
+  // paths are repository paths, so any root can show them)
+  const match = shared && (
+    repos.find(r => repoId(r) === repoId(shared) && (r.rootPath ?? "") === (shared.rootPath ?? "")) ??
+    repos.find(r => repoId(r) === repoId(shared))
+  );
+
+  const href = target.kind === "note"
+    ? `/notes/${target.path}`
+    : `/flashcards?path=${encodeURIComponent(target.folder)}`;
+
+  // Step towards "linked repo active on the linked ref", one change per render
+  useEffect(() => {
+    if (!shared || !match || isLoading) return;
+
+    if (activeRepo?.id !== match.id) {
+      setActiveRepo(match.id);
+      return;
+    }
+    if (match.ref !== shared.ref && switchRef !== false) {
+      if (switchRef === null || pending.current === shared.ref) return;
+      pending.current = shared.ref;
+      setRepoRef(match.id, shared.ref).catch((e) =>
+        setError(e instanceof Error ? e.message : `Could not load ${shared.ref}`),
+      );
+      return;
+    }
+    router.replace(href);
+  }, [shared, match, activeRepo, isLoading, href, router, setActiveRepo, setRepoRef, switchRef]);
+
+  const handleAdd = async (repo: SharedRepo) => {
+    setError(null);
+    try {
+      await addRepo(repo, repoWebUrl(repo), repo.ref, repo.rootPath);
+    } catch (e) {
+      if (e instanceof SourceApiError && (e.status === 404 || e.status === 401)) {
+        setNeedsToken(true);
+        setError(`${repo.owner}/${repo.name} was not found. If it is private, add an access token first.`);
+      } else {
+        setError(e instanceof Error ? e.message : "Failed to add repository");
+      }
+    }
+  };
+
+  if (parseError || !shared) {
+    return <SharedLinkMessage title="This link can't be opened" detail={parseError ?? undefined} />;
+  }
+
+  if (match && match.ref !== shared.ref && switchRef === null && !error) {
+    return (
+      <div className="p-6 lg:p-10">
+        <div className="max-w-md rounded-lg border border-border/60 bg-card p-5">
+          <h1 className="text-sm font-semibold mb-2">
+            {shared.owner}/{shared.name}
+          </h1>
+          <p className="text-sm text-muted-foreground mb-4 leading-relaxed">
+            This link is for <code className="text-foreground">{shared.ref}</code>, but you read this
+            repository on <code className="text-foreground">{match.ref}</code>. Switch it to{" "}
+            <code className="text-foreground">{shared.ref}</code>, or open the {target.kind === "note" ? "note" : "flashcards"}{" "}
+            on <code className="text-foreground">{match.ref}</code>?
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={() => setSwitchRef(true)}>
+              Switch to {shared.ref}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setSwitchRef(false)}>
+              Stay on {match.ref}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isReady || (match && !error)) {
+    return (
+      <div className="p-6 flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Opening {shared.owner}/{shared.name}…
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-10">
+      <div className="max-w-md rounded-lg border border-border/60 bg-card p-5">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-primary text-primary-foreground">
+            <BookOpen className="h-4 w-4" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-sm font-semibold truncate">
+              {shared.owner}/{shared.name}
+            </h1>
+            <p className="text-xs text-muted-foreground truncate">
+              {shared.host}
+              <span className="mx-1 opacity-40">@</span>
+              {shared.ref}
+              {shared.rootPath && <> · {shared.rootPath}</>}
+            </p>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground mb-4 leading-relaxed">
+          {match
+            ? "This link points to a repository you have added, but it couldn't be opened."
+            : target.kind === "note"
+              ? "This note is in a repository you haven't added yet."
+              : "These flashcards are in a repository you haven't added yet."}
+        </p>
+
+        {error && (
+          <p className="mb-4 text-xs text-destructive leading-relaxed">
+            {error}
+            {needsToken && (
+              <>
+                {" "}
+                <Link href="/#github-access" className="underline underline-offset-2">
+                  Repository Access
+                </Link>
+              </>
+            )}
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          {!match && (
+            <Button size="sm" onClick={() => handleAdd(shared)} disabled={isLoading}>
+              {isLoading && <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />}
+              Add repository
+            </Button>
+          )}
+          <Button size="sm" variant="outline" asChild>
+            <Link href="/">Go to dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SharedLinkMessage({ title, detail }: { title: string; detail?: string }) {
+  return (
+    <div className="p-6">
+      <h1 className="text-2xl font-semibold">{title}</h1>
+      {detail && <p className="mt-2 text-muted-foreground">{detail}</p>}
+    </div>
+  );
+}
@@ -1,10 +1,26 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from "react";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { parseGithubUrl } from "@/lib/utils";
+import { SourceApiError } from "@/lib/utils";
+import { loadRepoTree } from "@/lib/content-cache";
+import { setToken } from "@/lib/github-tokens";
+import {
+  PROVIDER_LABELS,
+  UnknownHostError,
+  LOCAL_REF,
+  getContentSource,
+  isFolderPickerSupported,
+  openLocalFolder,
+  openLocalZip,
+  parseRepoUrl,
+  repoId,
+  repoLabel,
+  type RepoLocation,
+  type SourceProvider,
+} from "@/lib/sources";
 import { useRepos } from "@/components/repo";
 
 /**
@@ -17,7 +33,8 @@ import { useRepos } from "@/components/repo";
  */
 export default function StartupModal() {
   const pathname = usePathname();
-  const { repos, addRepo, isLoading: isRepoLoading, activeRepo } = useRepos();
+  const router = useRouter();
+  const { repos, addRepo, isLoading: isRepoLoading, activeRepo, treeProgress } = useRepos();
   const [open, setOpen] = useState<boolean>(true);
   const [url, setUrl] = useState<string>(() => {
     try {
@@ -26,8 +43,21 @@ export default function StartupModal() {
       return "";
     }
   });
+  const [gitRef, setGitRef] = useState<string>("");
+  // Optional subfolder to use as the notes root (for notes inside a monorepo)
+  const [rootPath, setRootPath] = useState<string>("");
+  // Ref and folder the last pasted link filled in; values typed by hand are kept
+  const prefilled = useRef({ ref: "", rootPath: "" });
+  // Self-hosted instances whose hostname doesn't say GitLab or Gitea
+  const [unknownHost, setUnknownHost] = useState<string | null>(null);
+  const [provider, setProvider] = useState<SourceProvider | undefined>(undefined);
   const [status, setStatus] = useState<string | null>(null);
+  // Shown after a 404/401, since private repos look missing without a token
+  const [needsToken, setNeedsToken] = useState(false);
+  const [tokenInput, setTokenInput] = useState("");
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const zipInputRef = useRef<HTMLInputElement | null>(null);
+  const [isDraggingZip, setIsDraggingZip] = useState(false);
 
   const hasExistingNotes = repos.length > 0;
 
@@ -79,42 +109,113 @@ export default function StartupModal() {
     setStatus(null);
 
     if (!url || !url.trim()) {
-      setStatus("Please enter a GitHub repository URL.");
+      setStatus("Please enter a repository URL.");
       return;
     }
 
     setStatus("Parsing repository URL...");
 
     try {
-      const { owner, repo } = parseGithubUrl(url.trim());
-      setStatus(`Fetching repository tree for ${owner}/${repo}...`);
+      const { ref: linkRef, path: linkPath, isFile, ...location } = parseRepoUrl(url.trim(), provider);
+      const { owner, name } = location;
+      const ref = gitRef.trim() || linkRef || undefined;
+      let root = rootPath.trim();
 
-      await addRepo(owner, repo, url.trim());
+      const token = tokenInput.trim();
+      if (needsToken && token) {
+        setStatus(`Checking token access to ${owner}/${name}...`);
+        await getContentSource(location).validateToken(token, { owner, name });
+        setToken(repoId(location), token);
+      }
+
+      setStatus(
+        ref
+          ? `Fetching repository tree for ${owner}/${name}@${ref}...`
+          : `Detecting default branch for ${owner}/${name}...`,
+      );
+
+      // Gitea links don't say whether they point at a file or a folder;
+      // the tree does. A folder is mounted, a note opened.
+      let opensFile = isFile;
+      if (linkPath && ref && isFile === undefined) {
+        setStatus(`Looking up ${linkPath} in ${owner}/${name}@${ref}...`);
+        const tree = await loadRepoTree(location, { ref });
+        opensFile = tree.some((entry) => entry.type === "blob" && entry.path === linkPath);
+        if (!opensFile && !root) root = linkPath;
+      }
 
+      await addRepo(location, url.trim(), ref, root || undefined);
+
+      setNeedsToken(false);
+      setTokenInput("");
       setStatus("Fetched and saved repository successfully.");
-      // Give a moment for users to see the message then close
+      // Give a moment for users to see the message then close; a link to
+      // a note opens that note
       setTimeout(() => {
         setOpen(false);
+        if (opensFile && linkPath?.endsWith(".md")) router.push(`/notes/${linkPath}`);
       }, 400);
     } catch (err: unknown) {
       console.error(err);
-      let message = "Failed to fetch repository. Check the URL and try again.";
-
-      type HasMessage = { message?: unknown };
+      const message = errorMessage(err, "Failed to fetch repository. Check the URL and try again.");
 
-      if (typeof err === "string") {
-        message = err;
-      } else if (err && typeof err === "object" && "message" in err) {
-        const maybeMsg = (err as HasMessage).message;
-        if (typeof maybeMsg === "string") {
-          message = maybeMsg;
-        }
+      if (err instanceof SourceApiError && (err.status === 404 || err.status === 401)) {
+        setNeedsToken(true);
+      }
+      if (err instanceof UnknownHostError) {
+        setUnknownHost(err.host);
       }
 
       setStatus(message);
     }
   }
 
+  // Tree/blob links carry a ref, and tree links a folder to mount; both
+  // stay editable before fetching. Gitea links are settled on fetch.
+  // A link without them clears what an earlier link filled in.
+  function prefillFromLink(value: string) {
+    let next = { ref: "", rootPath: "" };
+    try {
+      const { ref, path, isFile } = parseRepoUrl(value.trim());
+      next = { ref: ref ?? "", rootPath: path && isFile === false ? path : "" };
+    } catch {
+      // Not a complete URL yet
+    }
+
+    if (gitRef === prefilled.current.ref) setGitRef(next.ref);
+    if (rootPath === prefilled.current.rootPath) setRootPath(next.rootPath);
+    prefilled.current = next;
+  }
+
+  // Folder or .zip: no URL, ref or token — the files are read in the browser
+  async function handleOpenLocal(open: () => Promise<RepoLocation | null>) {
+    setStatus("Reading files...");
+    try {
+      const location = await open();
+      if (!location) {
+        setStatus(null);
+        return;
+      }
+
+      await addRepo(location, "", LOCAL_REF);
+
+      setStatus(`Opened ${repoLabel(location)}.`);
+      setTimeout(() => {
+        setOpen(false);
+      }, 400);
+    } catch (err: unknown) {
+      console.error(err);
+      setStatus(errorMessage(err, "Failed to open local notes."));
+    }
+  }
+
+  function handleZipDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDraggingZip(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleOpenLocal(() => openLocalZip(file));
+  }
+
   return (
     <div
       id="startup-modal-portal"
@@ -144,11 +245,19 @@ export default function StartupModal() {
         role="dialog"
         aria-modal="true"
         aria-label="Startup modal"
-        className="relative z-10 w-full max-w-md rounded-lg border bg-card text-card-foreground p-6 shadow-xl"
+        className={`relative z-10 w-full max-w-md rounded-lg border bg-card text-card-foreground p-6 shadow-xl ${
+          isDraggingZip ? "ring-2 ring-primary" : ""
+        }`}
         style={{
           boxShadow: "0 8px 32px oklch(0 0 0 / 0.15), 0 2px 8px oklch(0 0 0 / 0.08)",
         }}
         onClick={(e) => e.stopPropagation()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDraggingZip(true);
+        }}
+        onDragLeave={() => setIsDraggingZip(false)}
+        onDrop={handleZipDrop}
       >
         <h2
           className="mb-1 text-lg font-semibold tracking-tight"
@@ -157,21 +266,76 @@ export default function StartupModal() {
           Welcome
         </h2>
         <p className="mb-5 text-sm text-muted-foreground leading-relaxed">
-          Enter the GitHub repository URL that contains your notes to get started.
+          Enter the GitHub, GitLab or Gitea repository URL that contains your notes to get started.
         </p>
 
         <Input
           ref={inputRef}
           value={url}
-          onChange={(e) => setUrl(e.target.value)}
+          onChange={(e) => {
+            setUrl(e.target.value);
+            setUnknownHost(null);
+            setProvider(undefined);
+            prefillFromLink(e.target.value);
+          }}
           autoFocus
           placeholder="https://github.com/username/notes"
           aria-label="Website URL"
+          className="mb-2 text-sm"
+        />
+
+        {unknownHost && (
+          <div className="mb-2 flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="truncate">{unknownHost} runs</span>
+            {(["gitlab", "gitea"] as const).map((p) => (
+              <Button
+                key={p}
+                type="button"
+                size="sm"
+                variant={provider === p ? "default" : "outline"}
+                className="h-6 px-2 text-xs"
+                onClick={() => setProvider(p)}
+              >
+                {PROVIDER_LABELS[p]}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <Input
+          value={gitRef}
+          onChange={(e) => setGitRef(e.target.value)}
+          placeholder="Branch or tag (default branch if empty)"
+          aria-label="Branch or tag"
+          className="mb-2 text-sm"
+        />
+
+        <Input
+          value={rootPath}
+          onChange={(e) => setRootPath(e.target.value)}
+          placeholder="Folder within the repository (whole repository if empty)"
+          aria-label="Notes folder"
           className="mb-4 text-sm"
         />
 
+        {needsToken && (
+          <Input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="Access token for a private repository"
+            aria-label="Repository access token"
+            autoComplete="off"
+            className="-mt-2 mb-4 text-sm font-mono"
+          />
+        )}
+
         <div className="mb-4 text-xs min-h-[1rem] leading-relaxed">
-          {isRepoLoading ? (
+          {isRepoLoading && treeProgress ? (
+            <span className="text-muted-foreground">
+              Large repository — loading folders ({treeProgress.done}/{treeProgress.total})...
+            </span>
+          ) : isRepoLoading ? (
             <span className="text-muted-foreground">
               {status || "Working..."}
             </span>
@@ -180,8 +344,45 @@ export default function StartupModal() {
           ) : hasExistingNotes ? (
             <span className="text-muted-foreground">Notes available. Click &quot;Use Notes&quot; to continue or fetch new notes.</span>
           ) : (
-            <span className="text-muted-foreground/60">No notes found. Enter a GitHub repo URL to fetch notes.</span>
+            <span className="text-muted-foreground/60">No notes found. Enter a repository URL to fetch notes.</span>
+          )}
+        </div>
+
+        <div className="mb-4 flex items-center gap-2 text-xs text-muted-foreground">
+          <span>Or preview local notes:</span>
+          {isFolderPickerSupported() && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              disabled={isRepoLoading}
+              onClick={() => handleOpenLocal(openLocalFolder)}
+            >
+              Open folder
+            </Button>
           )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            disabled={isRepoLoading}
+            onClick={() => zipInputRef.current?.click()}
+          >
+            Open .zip
+          </Button>
+          <input
+            ref={zipInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) handleOpenLocal(() => openLocalZip(file));
+            }}
+          />
         </div>
 
         <div className="flex justify-end gap-2">
@@ -205,3 +406,12 @@ export default function StartupModal() {
     </div>
   );
 }
+
+function errorMessage(err: unknown, fallback: string): string {
+  if (typeof err === "string") return err;
+  if (err && typeof err === "object" && "message" in err) {
+    const maybeMsg = (err as { message?: unknown }).message;
+    if (typeof maybeMsg === "string") return maybeMsg;
+  }
+  return fallback;
+}
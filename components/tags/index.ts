@@ -0,0 +1,4 @@
+// Tag browsing exports
+export { TagIndex } from "./tag-index";
+export { TagNotes } from "./tag-notes";
+export { useTagScan } from "./use-tag-scan";
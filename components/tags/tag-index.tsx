@@ -0,0 +1,90 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Hash, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useNoteMetadata, useRepos } from "@/components/repo";
+import { collectTags, tagHref, tagKey } from "@/lib/tags";
+import { repoLabel } from "@/lib/sources";
+import { useTagScan } from "./use-tag-scan";
+import { TagScanStatus } from "./tag-scan-status";
+
+/** Every tag in the active repo with its note count. */
+export function TagIndex() {
+  const { activeRepo } = useRepos();
+  const index = useNoteMetadata();
+  const { scan, isScanning, downloadMissing } = useTagScan();
+  const [filter, setFilter] = useState("");
+
+  const tags = useMemo(() => collectTags(index, activeRepo?.rootPath), [index, activeRepo?.rootPath]);
+  const visible = filter.trim()
+    ? tags.filter((tag) => tag.key.includes(tagKey(filter.trim())))
+    : tags;
+
+  if (!activeRepo) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-semibold">Tags</h1>
+        <p className="mt-2 text-muted-foreground">Add a repository to browse its tags.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-10">
+      <div className="max-w-4xl mx-auto">
+        <header className="mb-8 pt-2">
+          <h1 className="text-2xl font-semibold tracking-tight">Tags</h1>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            {tags.length} tag{tags.length !== 1 ? "s" : ""} in {repoLabel(activeRepo)}
+          </p>
+          <TagScanStatus scan={scan} isScanning={isScanning} onDownload={downloadMissing} className="mt-2" />
+        </header>
+
+        {tags.length > 8 && (
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter tags…"
+            className="mb-6 max-w-xs"
+            aria-label="Filter tags"
+          />
+        )}
+
+        {visible.length > 0 ? (
+          <ul className="flex flex-wrap gap-2">
+            {visible.map((tag) => (
+              <li key={tag.key}>
+                <Link
+                  href={tagHref(tag.key)}
+                  className="inline-flex items-center gap-1.5 rounded-full border border-border/60 px-3 py-1 text-sm hover:bg-accent/60 transition-colors"
+                >
+                  <Hash className="w-3 h-3 text-muted-foreground" />
+                  {tag.label}
+                  <span className="text-xs text-muted-foreground tabular-nums">{tag.count}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : isScanning ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Looking for tags…
+          </div>
+        ) : (
+          <div className="py-8 text-center">
+            <p className="text-sm text-muted-foreground">
+              {filter.trim() ? "No matching tags" : "No tags yet"}
+            </p>
+            {!filter.trim() && (
+              <p className="text-xs text-muted-foreground/60 mt-1">
+                Add <code>tags:</code> to a note&apos;s frontmatter or write <code>#tag</code> in its text
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, FileText } from "lucide-react";
+import { useNoteMetadata, useRepos } from "@/components/repo";
+import { naturalCompare } from "@/lib/sidebar-sort";
+import { noteTags, notesWithTag, tagHref, tagKey } from "@/lib/tags";
+import { useTagScan } from "./use-tag-scan";
+import { TagScanStatus } from "./tag-scan-status";
+
+/** Notes tagged `tag` (or a tag nested in it), with previews. */
+export function TagNotes({ tag }: { tag: string }) {
+  const { activeRepo } = useRepos();
+  const index = useNoteMetadata();
+  const { scan, isScanning, downloadMissing } = useTagScan();
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+
+  const key = tagKey(tag);
+  const notes = useMemo(
+    () =>
+      notesWithTag(index, key, activeRepo?.rootPath)
+        .map((path) => ({ path, title: index[path]?.title ?? fileTitle(path) }))
+        .sort((a, b) => naturalCompare(a.title, b.title)),
+    [index, key, activeRepo?.rootPath],
+  );
+
+  // The tag as written in the notes, e.g. "Course/Week2"
+  const label =
+    notes.flatMap(({ path }) => noteTags(index[path])).find((t) => tagKey(t) === key) ?? tag;
+
+  // Previews come from the content cache; notes were read when indexed
+  useEffect(() => {
+    if (!activeRepo) return;
+    const missing = notes.filter(({ path }) => previews[path] === undefined);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      const { loadRepoFile } = await import("@/lib/content-cache");
+      const { parseNote } = await import("@/lib/frontmatter");
+      const { notePreview } = await import("@/lib/note-metadata");
+      const loaded: Record<string, string> = {};
+      for (const { path } of missing) {
+        try {
+          const text = await loadRepoFile(activeRepo, path, { ref: activeRepo.ref, priority: "low" });
+          loaded[path] = notePreview(parseNote(text).body);
+        } catch {
+          loaded[path] = "";
+        }
+      }
+      if (!cancelled) setPreviews((prev) => ({ ...prev, ...loaded }));
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeRepo, notes, previews]);
+
+  if (!activeRepo) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-semibold">#{tag}</h1>
+        <p className="mt-2 text-muted-foreground">Add a repository to browse its tags.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-10">
+      <div className="max-w-4xl mx-auto">
+        <header className="mb-8 pt-2">
+          <Link
+            href="/tags"
+            className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground mb-3"
+          >
+            <ArrowLeft className="w-3 h-3" />
+            All tags
+          </Link>
+          <h1 className="text-2xl font-semibold tracking-tight">#{label}</h1>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            {notes.length} note{notes.length !== 1 ? "s" : ""}
+          </p>
+          <TagScanStatus scan={scan} isScanning={isScanning} onDownload={downloadMissing} className="mt-2" />
+        </header>
+
+        {notes.length > 0 ? (
+          <div className="space-y-0.5">
+            {notes.map(({ path, title }) => {
+              const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+              const otherTags = noteTags(index[path]).filter((t) => tagKey(t) !== key);
+              return (
+                <div key={path} className="py-3 px-3 -mx-3 rounded-md hover:bg-accent/60 transition-colors">
+                  <Link href={`/notes/${path}`} className="flex items-center gap-3 group">
+                    <FileText className="w-3.5 h-3.5 text-muted-foreground/60 group-hover:text-foreground/70 flex-shrink-0" />
+                    <span className="text-sm font-medium truncate">{title}</span>
+                    {folder && (
+                      <span className="text-[11px] text-muted-foreground/60 truncate">{folder}</span>
+                    )}
+                  </Link>
+                  {previews[path] && (
+                    <p className="text-xs text-muted-foreground mt-1 ml-[26px] line-clamp-2">
+                      {previews[path]}
+                    </p>
+                  )}
+                  {otherTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-1.5 ml-[26px]">
+                      {otherTags.map((t) => (
+                        <Link
+                          key={t}
+                          href={tagHref(t)}
+                          className="text-[11px] text-muted-foreground hover:text-foreground"
+                        >
+                          #{t}
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="py-8 text-center">
+            <p className="text-sm text-muted-foreground">
+              {isScanning ? "Looking for notes with this tag…" : "No notes with this tag"}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function fileTitle(path: string): string {
+  return path.split("/").pop()?.replace(/\.md$/i, "") ?? path;
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { NoteScan } from "@/lib/note-metadata";
+
+/**
+ * Progress of the background tag scan, or how much of the repo it covered
+ * when some notes were skipped (not cached, or the API quota ran low), with
+ * a way to read them.
+ */
+export function TagScanStatus({
+  scan,
+  isScanning,
+  onDownload,
+  className,
+}: {
+  scan: NoteScan | null;
+  isScanning: boolean;
+  /** Reads the notes that were skipped (see `useTagScan`) */
+  onDownload: () => void;
+  className?: string;
+}) {
+  if (isScanning && scan) {
+    return (
+      <p className={cn("flex items-center gap-1.5 text-xs text-muted-foreground", className)}>
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Reading notes… {scan.scanned}/{scan.total}
+      </p>
+    );
+  }
+
+  if (scan?.stoppedBy || scan?.missing) {
+    return (
+      <p className={cn("text-xs text-muted-foreground", className)}>
+        Read {scan.scanned} of {scan.total} notes{scan.missing ? " saved on this device" : ""}, so some tags may be
+        missing. {scan.stoppedBy}{" "}
+        <button
+          type="button"
+          onClick={onDownload}
+          className="underline underline-offset-2 hover:text-foreground"
+        >
+          Download the rest
+        </button>
+      </p>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRepos, type Repo } from "@/components/repo";
+import { canDownloadNotes, type NoteScan } from "@/lib/note-metadata";
+
+// Trees (repo id, ref and tree sha) scanned this session
+const scanned = new Set<string>();
+
+/**
+ * Scan the active repo's notes for tags in the background, once per tree.
+ * Results land in the note metadata index (see `useNoteMetadata`); this
+ * only reports progress.
+ *
+ * Notes come from the content cache; ones that aren't cached are only
+ * downloaded when a token is set, or when `downloadMissing` is called.
+ */
+export function useTagScan(): { scan: NoteScan | null; isScanning: boolean; downloadMissing: () => void } {
+  const { activeRepo } = useRepos();
+  const [progress, setProgress] = useState<{ key: string; scan: NoteScan; done: boolean } | null>(null);
+
+  const key = activeRepo
+    ? `${activeRepo.id}@${activeRepo.ref}:${activeRepo.stats?.treeSha ?? activeRepo.stats?.lastFetched ?? ""}`
+    : null;
+
+  const runScan = useCallback((repo: Repo, key: string, cachedOnly: boolean) => {
+    scanned.add(key);
+
+    (async () => {
+      try {
+        const { loadRepoTree } = await import("@/lib/content-cache");
+        const { scanRepoNotes } = await import("@/lib/note-metadata");
+        const tree = await loadRepoTree(repo, { ref: repo.ref });
+        const result = await scanRepoNotes(
+          repo,
+          tree,
+          { ref: repo.ref, rootPath: repo.rootPath, cachedOnly },
+          { onProgress: (scan) => setProgress({ key, scan, done: false }) },
+        );
+        setProgress({ key, scan: result, done: true });
+      } catch (e) {
+        console.warn("Tag scan failed:", e);
+        scanned.delete(key);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!activeRepo || !key || scanned.has(key)) return;
+    runScan(activeRepo, key, !canDownloadNotes(activeRepo));
+  }, [activeRepo, key, runScan]);
+
+  // Progress of another repo's scan doesn't apply
+  const current = progress?.key === key ? progress : null;
+  const isScanning = !!current && !current.done;
+
+  const downloadMissing = useCallback(() => {
+    if (!activeRepo || !key || isScanning) return;
+    runScan(activeRepo, key, false);
+  }, [activeRepo, key, isScanning, runScan]);
+
+  return { scan: current?.scan ?? null, isScanning, downloadMissing };
+}
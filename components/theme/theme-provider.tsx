@@ -63,6 +63,8 @@ export interface ThemeDefinition {
 interface ThemeContextType {
   themeId: string;
   setThemeId: (id: string) => void;
+  /** Use a repo's default theme, unless the reader has picked one */
+  applyRepoTheme: (id: string) => void;
   fontSize: FontSize;
   setFontSize: (size: FontSize) => void;
   fontId: string;
@@ -581,6 +583,14 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     try { localStorage.setItem(STORAGE_KEYS.themeId, id); } catch {}
   }, []);
 
+  // Not persisted: a theme the reader saved always wins
+  const applyRepoTheme = useCallback((id: string) => {
+    try {
+      if (localStorage.getItem(STORAGE_KEYS.themeId)) return;
+    } catch {}
+    if (THEMES.some((t) => t.id === id)) setThemeIdState(id);
+  }, []);
+
   const setFontSize = useCallback((size: FontSize) => {
     setFontSizeState(size);
     try { localStorage.setItem(STORAGE_KEYS.fontSize, size); } catch {}
@@ -629,7 +639,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
   const allFonts = [...FONTS, ...customFonts];
 
   const value: ThemeContextType = {
-    themeId, setThemeId,
+    themeId, setThemeId, applyRepoTheme,
     fontSize, setFontSize,
     fontId, setFontId,
     customFonts, addCustomFont, removeCustomFont,
@@ -0,0 +1,162 @@
+/**
+ * "What's new" change feed
+ *
+ * When a repo is refreshed, the previous and new trees are diffed by path
+ * and blob sha. Changed notes and decks are kept per repo in localStorage
+ * until they are opened (or dismissed), so the dashboard and sidebar can
+ * point at them.
+ */
+
+import type { GitTreeEntry } from "./utils";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+const STORAGE_KEY = "docurepo:changes";
+
+/** Fired on window whenever the change feed is updated. */
+export const CHANGES_EVENT = "docurepo:changes-updated";
+
+// Older entries are dropped beyond this many per repo
+const MAX_CHANGES = 200;
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type ChangeKind = "added" | "modified" | "deleted";
+
+export interface TreeChange {
+  path: string;
+  kind: ChangeKind;
+  /** Timestamp (ms) of the refresh that found the change */
+  detectedAt: number;
+}
+
+/** Change lists keyed by repo id */
+type ChangeMap = Record<string, TreeChange[]>;
+
+// ─── Diff ──────────────────────────────────────────────────────
+
+/** Notes and flashcard decks — the files the feed reports on. */
+export function isTrackedFile(path: string): boolean {
+  return /\.(md|ya?ml)$/i.test(path);
+}
+
+/** Added, modified and deleted notes/decks between two trees. */
+export function diffTrees(previous: GitTreeEntry[], next: GitTreeEntry[]): TreeChange[] {
+  const shas = (tree: GitTreeEntry[]) =>
+    new Map(
+      tree
+        .filter((entry) => entry.type === "blob" && isTrackedFile(entry.path))
+        .map((entry) => [entry.path, entry.sha]),
+    );
+
+  const before = shas(previous);
+  const after = shas(next);
+  const detectedAt = Date.now();
+  const changes: TreeChange[] = [];
+
+  for (const [path, sha] of after) {
+    if (!before.has(path)) {
+      changes.push({ path, kind: "added", detectedAt });
+    } else if (before.get(path) !== sha) {
+      changes.push({ path, kind: "modified", detectedAt });
+    }
+  }
+  for (const path of before.keys()) {
+    if (!after.has(path)) changes.push({ path, kind: "deleted", detectedAt });
+  }
+
+  return changes;
+}
+
+// ─── Store ─────────────────────────────────────────────────────
+
+/** Stable empty feed, e.g. for server snapshots. */
+export const NO_CHANGES: TreeChange[] = [];
+
+let cachedRaw: string | null = null;
+let cachedMap: ChangeMap = {};
+
+function readMap(): ChangeMap {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // Re-parse only when storage changed, so snapshots stay referentially stable
+    if (raw !== cachedRaw) {
+      cachedRaw = raw;
+      cachedMap = raw ? (JSON.parse(raw) as ChangeMap) : {};
+    }
+  } catch {
+    cachedMap = {};
+  }
+  return cachedMap;
+}
+
+function writeMap(map: ChangeMap): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(map));
+    window.dispatchEvent(new CustomEvent(CHANGES_EVENT));
+  } catch {}
+}
+
+/** Unseen changes for a repo, newest first. */
+export function getChanges(repoId: string): TreeChange[] {
+  return readMap()[repoId] ?? NO_CHANGES;
+}
+
+/**
+ * Merge newly detected changes into a repo's feed. A file added and then
+ * modified stays "added"; added and then deleted drops out entirely.
+ */
+export function recordChanges(repoId: string, changes: TreeChange[]): void {
+  if (changes.length === 0) return;
+
+  const map = { ...readMap() };
+  const byPath = new Map((map[repoId] ?? []).map((change) => [change.path, change]));
+
+  for (const change of changes) {
+    const prev = byPath.get(change.path);
+    if (prev?.kind === "added" && change.kind === "deleted") {
+      byPath.delete(change.path);
+    } else if (prev?.kind === "added") {
+      byPath.set(change.path, { ...prev, detectedAt: change.detectedAt });
+    } else if (prev?.kind === "deleted" && change.kind === "added") {
+      byPath.set(change.path, { ...change, kind: "modified" });
+    } else {
+      byPath.set(change.path, change);
+    }
+  }
+
+  map[repoId] = Array.from(byPath.values())
+    .sort((a, b) => b.detectedAt - a.detectedAt)
+    .slice(0, MAX_CHANGES);
+  writeMap(map);
+}
+
+/** Remove paths from a repo's feed, e.g. once a note has been opened. */
+export function markChangesSeen(repoId: string, paths: string[]): void {
+  const current = readMap()[repoId];
+  if (!current) return;
+
+  const seen = new Set(paths);
+  const remaining = current.filter((change) => !seen.has(change.path));
+  if (remaining.length === current.length) return;
+
+  writeMap({ ...readMap(), [repoId]: remaining });
+}
+
+export function clearChanges(repoId: string): void {
+  const map = { ...readMap() };
+  if (!map[repoId]) return;
+  delete map[repoId];
+  writeMap(map);
+}
+
+/** Subscribe to feed changes (for useSyncExternalStore). */
+export function subscribeChanges(callback: () => void): () => void {
+  window.addEventListener(CHANGES_EVENT, callback);
+  window.addEventListener("storage", callback);
+  return () => {
+    window.removeEventListener(CHANGES_EVENT, callback);
+    window.removeEventListener("storage", callback);
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * Content-addressed offline cache (IndexedDB)
+ *
+ * File contents are stored by git blob sha, so a file is downloaded once
+ * and reused until its content changes — across refs, repos and sessions.
+ * Repo trees are stored per repo + ref and map paths to those shas, which
+ * is what lets previously opened notes and decks load with no network.
+ * Reads go through the repo's content source (GitHub, GitLab or Gitea).
+ */
+
+import { safeDecode, type GitTreeEntry, type RequestPriority, type TreeProgress, type TreeSnapshot } from "./utils";
+import { getContentSource, isLiveLocalSource, repoId, type RepoLocation } from "./sources";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+const DB_NAME = "docurepo-cache";
+const DB_VERSION = 1;
+const BLOB_STORE = "blobs";
+const TREE_STORE = "trees";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface CachedBlob {
+  sha: string;
+  content: string;
+  cachedAt: number;
+}
+
+export interface CachedTree {
+  /** "<repo id>@ref", e.g. "owner/name@main" */
+  key: string;
+  entries: GitTreeEntry[];
+  fetchedAt: number;
+  /** Root tree sha, when the source reports one */
+  sha?: string;
+  /** ETag of the tree response, sent as If-None-Match on refresh */
+  etag?: string;
+}
+
+/** Result of revalidating a repo tree against its source. */
+export interface TreeRefresh {
+  entries: GitTreeEntry[];
+  /** The cached tree before this refresh, if there was one */
+  previous?: GitTreeEntry[];
+  /** False when the source confirmed the cached tree is current */
+  changed: boolean;
+  sha?: string;
+}
+
+// ─── IndexedDB plumbing ────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BLOB_STORE)) {
+        db.createObjectStore(BLOB_STORE, { keyPath: "sha" });
+      }
+      if (!db.objectStoreNames.contains(TREE_STORE)) {
+        db.createObjectStore(TREE_STORE, { keyPath: "key" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Private browsing or blocked storage: run uncached
+      console.warn("Content cache unavailable:", request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+async function idbGet<T>(store: string, key: string): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve) => {
+    const request = db.transaction(store, "readonly").objectStore(store).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+async function idbPut<T>(store: string, value: T): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const tx = db.transaction(store, "readwrite");
+    tx.objectStore(store).put(value);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => {
+      console.warn("Content cache write failed:", tx.error);
+      resolve();
+    };
+  });
+}
+
+// ─── Blobs ─────────────────────────────────────────────────────
+
+export async function getCachedBlob(sha: string): Promise<string | undefined> {
+  const hit = await idbGet<CachedBlob>(BLOB_STORE, sha);
+  return hit?.content;
+}
+
+export async function putCachedBlob(sha: string, content: string): Promise<void> {
+  await idbPut<CachedBlob>(BLOB_STORE, { sha, content, cachedAt: Date.now() });
+}
+
+// ─── Trees ─────────────────────────────────────────────────────
+
+function treeKey(repo: RepoLocation, ref: string): string {
+  return `${repoId(repo)}@${ref}`;
+}
+
+export async function getCachedTree(
+  repo: RepoLocation,
+  ref: string,
+): Promise<GitTreeEntry[] | undefined> {
+  const hit = await idbGet<CachedTree>(TREE_STORE, treeKey(repo, ref));
+  return hit?.entries;
+}
+
+export async function putCachedTree(
+  repo: RepoLocation,
+  ref: string,
+  snapshot: TreeSnapshot,
+): Promise<void> {
+  await idbPut<CachedTree>(TREE_STORE, {
+    key: treeKey(repo, ref),
+    entries: snapshot.entries,
+    fetchedAt: Date.now(),
+    sha: snapshot.sha,
+    etag: snapshot.etag,
+  });
+}
+
+// ─── Cached loaders ────────────────────────────────────────────
+
+/**
+ * Load a repo tree, preferring the cached copy.
+ *
+ * Pass `refresh: true` to revalidate against the source (see
+ * `refreshRepoTree`), e.g. when the user explicitly refreshes a repo.
+ * `onProgress` reports the subtree walk for repos too large for a single
+ * recursive listing. Local folders are walked again on every call, since
+ * their files can be edited at any time.
+ */
+export async function loadRepoTree(
+  repo: RepoLocation,
+  options: {
+    ref: string;
+    token?: string;
+    refresh?: boolean;
+    onProgress?: (progress: TreeProgress) => void;
+  },
+): Promise<GitTreeEntry[]> {
+  if (isLiveLocalSource(repo)) return walkLocalTree(repo, options);
+
+  if (!options.refresh) {
+    const cached = await getCachedTree(repo, options.ref);
+    if (cached) return cached;
+  }
+
+  const { entries } = await refreshRepoTree(repo, options);
+  return entries;
+}
+
+// Folder walks in progress, so callers loading the tree together share one
+const localWalks = new Map<string, Promise<GitTreeEntry[]>>();
+
+function walkLocalTree(repo: RepoLocation, options: { ref: string }): Promise<GitTreeEntry[]> {
+  const key = treeKey(repo, options.ref);
+  let walk = localWalks.get(key);
+  if (!walk) {
+    walk = refreshRepoTree(repo, options)
+      .then((result) => result.entries)
+      .finally(() => localWalks.delete(key));
+    localWalks.set(key, walk);
+  }
+  return walk;
+}
+
+/**
+ * Revalidate a repo tree. Sources that support conditional requests are
+ * sent the cached tree's ETag, so an unchanged repo costs a single 304
+ * (free against GitHub's rate limit) and the cached tree is reused.
+ */
+export async function refreshRepoTree(
+  repo: RepoLocation,
+  options: {
+    ref: string;
+    token?: string;
+    onProgress?: (progress: TreeProgress) => void;
+  },
+): Promise<TreeRefresh> {
+  const key = treeKey(repo, options.ref);
+  const cached = await idbGet<CachedTree>(TREE_STORE, key);
+  const source = getContentSource(repo);
+  const request = {
+    ref: options.ref,
+    token: options.token,
+    onProgress: options.onProgress,
+  };
+
+  const snapshot: TreeSnapshot | null = source.listTreeIfChanged
+    ? await source.listTreeIfChanged(repo.owner, repo.name, { ...request, etag: cached?.etag })
+    : { entries: await source.listTree(repo.owner, repo.name, request) };
+
+  if (!snapshot && cached) {
+    await idbPut<CachedTree>(TREE_STORE, { ...cached, fetchedAt: Date.now() });
+    return { entries: cached.entries, previous: cached.entries, changed: false, sha: cached.sha };
+  }
+  if (!snapshot) {
+    // 304 without a cached tree can't happen (no etag was sent)
+    throw new Error(`Tree for ${key} was not modified but is not cached`);
+  }
+
+  await putCachedTree(repo, options.ref, snapshot);
+  return {
+    entries: snapshot.entries,
+    previous: cached?.entries,
+    // Sources without a root sha (local folders) are compared entry by entry
+    changed: !cached || (snapshot.sha ? snapshot.sha !== cached.sha : !sameEntries(cached.entries, snapshot.entries)),
+    sha: snapshot.sha,
+  };
+}
+
+/**
+ * Load a file's text by path, served from the sha-keyed cache when the
+ * repo tree says its content hasn't changed. Files in local folders are
+ * always read from disk, so edits show up straight away.
+ */
+export async function loadRepoFile(
+  repo: RepoLocation,
+  path: string,
+  options: { ref: string; token?: string; priority?: RequestPriority },
+): Promise<string> {
+  if (isLiveLocalSource(repo)) {
+    return getContentSource(repo).readFile(repo.owner, repo.name, path, options);
+  }
+
+  const decodedPath = safeDecode(path);
+
+  let sha: string | undefined;
+  try {
+    const tree = await loadRepoTree(repo, options);
+    sha = tree.find((entry) => entry.type === "blob" && entry.path === decodedPath)?.sha;
+  } catch (e) {
+    // No cached tree and no network — fall through to a direct fetch
+    console.warn("Content cache: tree unavailable for", repoId(repo), e);
+  }
+
+  if (sha) {
+    const cached = await getCachedBlob(sha);
+    if (cached !== undefined) return cached;
+  }
+
+  const content = await getContentSource(repo).readFile(repo.owner, repo.name, path, options);
+  if (sha) await putCachedBlob(sha, content);
+  return content;
+}
+
+/** File types worth keeping offline: notes and flashcard decks. */
+export function isCacheableFile(path: string): boolean {
+  return /\.(md|ya?ml)$/i.test(path);
+}
+
+/**
+ * Download every note and deck under `folder` that isn't cached yet.
+ *
+ * Already-cached shas are skipped, so re-running after a refresh only
+ * fetches files whose content changed. Returns the paths that were covered.
+ */
+export async function prefetchRepoFolder(
+  repo: RepoLocation,
+  folder: string,
+  options: { ref: string; token?: string },
+  onProgress?: (done: number, total: number) => void,
+): Promise<string[]> {
+  const tree = await loadRepoTree(repo, options);
+  const prefix = folder ? `${folder.replace(/\/$/, "")}/` : "";
+
+  const files = tree.filter(
+    (entry) =>
+      entry.type === "blob" &&
+      entry.path.startsWith(prefix) &&
+      isCacheableFile(entry.path),
+  );
+
+  let done = 0;
+  onProgress?.(done, files.length);
+
+  for (const entry of files) {
+    const cached = entry.sha ? await getCachedBlob(entry.sha) : undefined;
+    if (cached === undefined) {
+      const content = await getContentSource(repo).readFile(
+        repo.owner,
+        repo.name,
+        entry.path,
+        options,
+      );
+      if (entry.sha) await putCachedBlob(entry.sha, content);
+    }
+    done++;
+    onProgress?.(done, files.length);
+  }
+
+  return files.map((entry) => entry.path);
+}
+
+/* Helpers */
+
+function sameEntries(a: GitTreeEntry[], b: GitTreeEntry[]): boolean {
+  return a.length === b.length && a.every((entry, i) => entry.path === b[i].path && entry.sha === b[i].sha && entry.size === b[i].size);
+}
@@ -1,5 +1,6 @@
 import * as yaml from "js-yaml";
-import { fetchMarkdown } from "./utils";
+import { loadRepoFile } from "./content-cache";
+import type { RepoLocation } from "./sources";
 import type { FlashcardDeck, Flashcard } from "./flashcard-types";
 
 // ─── YAML Shape ───────────────────────────────────────────────
@@ -31,15 +32,15 @@ function generateCardId(deckId: string, index: number): string {
 // ─── Fetch & Parse ────────────────────────────────────────────
 
 /**
- * Fetch and parse a single YAML flashcard deck from GitHub.
+ * Fetch and parse a single YAML flashcard deck from the repo.
+ * Unchanged decks are served from the content cache.
  */
 export async function fetchFlashcardDeck(
-  owner: string,
-  repo: string,
+  repo: RepoLocation,
   filePath: string,
-  options?: { token?: string },
+  options: { ref: string; token?: string },
 ): Promise<FlashcardDeck> {
-  const raw = await fetchMarkdown(owner, repo, filePath, options);
+  const raw = await loadRepoFile(repo, filePath, options);
   return parseFlashcardYaml(raw, filePath);
 }
 
@@ -99,13 +100,12 @@ export function parseFlashcardYaml(rawYaml: string, filePath: string): Flashcard
  * `flashcardPaths` is a list of file paths like ["flashcards/unit-1.yml", ...].
  */
 export async function fetchAllFlashcardDecks(
-  owner: string,
-  repo: string,
+  repo: RepoLocation,
   flashcardPaths: string[],
-  options?: { token?: string },
+  options: { ref: string; token?: string },
 ): Promise<FlashcardDeck[]> {
   const results = await Promise.allSettled(
-    flashcardPaths.map((path) => fetchFlashcardDeck(owner, repo, path, options)),
+    flashcardPaths.map((path) => fetchFlashcardDeck(repo, path, options)),
   );
 
   const decks: FlashcardDeck[] = [];
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { isEmptyMetadata, noteMetadata, parseNote, splitFrontmatter } from "./frontmatter";
+
+describe("splitFrontmatter", () => {
+  it("separates the YAML block from the body", () => {
+    expect(splitFrontmatter("---\ntitle: Intro\norder: 2\n---\n# Intro\n")).toEqual({
+      data: { title: "Intro", order: 2 },
+      body: "# Intro\n",
+    });
+  });
+
+  it("accepts CRLF line endings, a BOM and a closing `...`", () => {
+    expect(splitFrontmatter("\uFEFF---\r\ntitle: Intro\r\n...\r\nBody")).toEqual({
+      data: { title: "Intro" },
+      body: "Body",
+    });
+  });
+
+  it("accepts an empty block", () => {
+    expect(splitFrontmatter("---\n---\nBody")).toEqual({ data: {}, body: "Body" });
+  });
+
+  it("leaves notes without frontmatter alone", () => {
+    const text = "# Intro\n\n---\n\ntitle: not frontmatter\n";
+    expect(splitFrontmatter(text)).toEqual({ data: {}, body: text });
+  });
+
+  it("leaves blocks that aren't a YAML map in the body", () => {
+    for (const text of ["---\n- a\n- b\n---\nBody", "---\njust text\n---\nBody", "---\ntitle: [oops\n---\nBody"]) {
+      expect(splitFrontmatter(text)).toEqual({ data: {}, body: text });
+    }
+  });
+});
+
+describe("noteMetadata", () => {
+  it("accepts the usual spellings", () => {
+    expect(
+      noteMetadata({ title: " Intro ", alias: "Start", tag: "#cs, algorithms  #exam", author: "Ada" }),
+    ).toEqual({ title: "Intro", aliases: ["Start"], tags: ["cs", "algorithms", "exam"], authors: ["Ada"] });
+  });
+
+  it("reads lists", () => {
+    expect(noteMetadata({ aliases: ["A", 2, null, " "], tags: ["#cs", "math"], authors: ["Ada", "Alan"] })).toEqual({
+      aliases: ["A", "2"],
+      tags: ["cs", "math"],
+      authors: ["Ada", "Alan"],
+    });
+  });
+
+  it("keeps plain dates as dates and timestamps in full", () => {
+    expect(parseNote("---\ndate: 2024-03-01\n---\n").metadata.date).toBe("2024-03-01");
+    expect(parseNote("---\ndate: 2024-03-01T09:30:00Z\n---\n").metadata.date).toBe("2024-03-01T09:30:00.000Z");
+    expect(noteMetadata({ date: "March 1st" }).date).toBe("March 1st");
+  });
+
+  it("is empty for notes without metadata", () => {
+    expect(isEmptyMetadata(noteMetadata({}))).toBe(true);
+    expect(isEmptyMetadata(noteMetadata({ order: 1 }))).toBe(true);
+    expect(isEmptyMetadata(noteMetadata({ tags: "cs" }))).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * YAML frontmatter
+ *
+ * Notes may start with a YAML block fenced by `---` lines:
+ *
+ *   ---
+ *   title: Week 2 — Linked Lists
+ *   order: 2
+ *   ---
+ *
+ * A block that isn't valid YAML (or isn't a map) is left in the body, so
+ * a note that merely starts with a horizontal rule renders unchanged.
+ *
+ * `title`, `aliases`, `tags`, `date` and `authors` are normalized into
+ * `NoteMetadata`, accepting the usual spellings (`alias`, `author`, a
+ * comma-separated tag string, `#tag`).
+ */
+
+import * as yaml from "js-yaml";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+// Opening fence on the first line; closing `---` (or YAML's `...`)
+const FRONTMATTER_RE = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface NoteMetadata {
+  title?: string;
+  aliases: string[];
+  /** Tag names without the leading "#" */
+  tags: string[];
+  /** "YYYY-MM-DD", or a full ISO timestamp when a time was given */
+  date?: string;
+  authors: string[];
+}
+
+export interface SplitFrontmatter {
+  /** Parsed frontmatter fields ({} when there is no frontmatter) */
+  data: Record<string, unknown>;
+  /** The note without its frontmatter block */
+  body: string;
+}
+
+export type ParsedNote = SplitFrontmatter & { metadata: NoteMetadata };
+
+// ─── Parsing ───────────────────────────────────────────────────
+
+/** Separate a note's frontmatter from its body. */
+export function splitFrontmatter(text: string): SplitFrontmatter {
+  const match = FRONTMATTER_RE.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  let data: unknown;
+  try {
+    data = match[1]?.trim() ? yaml.load(match[1]) : {};
+  } catch {
+    return { data: {}, body: text };
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { data: {}, body: text };
+  }
+
+  return { data: data as Record<string, unknown>, body: text.slice(match[0].length) };
+}
+
+/** Normalize the fields of parsed frontmatter that the app displays. */
+export function noteMetadata(data: Record<string, unknown>): NoteMetadata {
+  const title = text(data.title);
+  const date = dateText(data.date);
+  return {
+    ...(title && { title }),
+    aliases: textList(data.aliases ?? data.alias),
+    tags: textList(data.tags ?? data.tag, /[,\s]+/)
+      .map((tag) => tag.replace(/^#/, ""))
+      .filter(Boolean),
+    ...(date && { date }),
+    authors: textList(data.authors ?? data.author),
+  };
+}
+
+/** Frontmatter, metadata and body of a note in one pass. */
+export function parseNote(text: string): ParsedNote {
+  const split = splitFrontmatter(text);
+  return { ...split, metadata: noteMetadata(split.data) };
+}
+
+/** True when metadata has nothing worth showing or indexing. */
+export function isEmptyMetadata(metadata: NoteMetadata): boolean {
+  return (
+    !metadata.title &&
+    !metadata.date &&
+    metadata.aliases.length === 0 &&
+    metadata.tags.length === 0 &&
+    metadata.authors.length === 0
+  );
+}
+
+/* Helpers */
+
+function text(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") return undefined;
+  return value.trim() || undefined;
+}
+
+// A YAML list or a single value; strings are split by `separator` if given
+function textList(value: unknown, separator?: RegExp): string[] {
+  const items = Array.isArray(value) ? value : [value];
+  return items.flatMap((item) => {
+    const single = text(item);
+    if (!single) return [];
+    return separator ? single.split(separator).filter(Boolean) : [single];
+  });
+}
+
+// js-yaml turns unquoted dates into Date objects (midnight UTC for plain dates)
+function dateText(value: unknown): string | undefined {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return undefined;
+    const iso = value.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  return text(value);
+}
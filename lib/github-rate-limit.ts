@@ -0,0 +1,88 @@
+/**
+ * GitHub API rate-limit tracking
+ *
+ * Every API response carries `X-RateLimit-*` headers; the latest values are
+ * kept here (and in localStorage, so a reload still knows the quota is spent)
+ * for the request queue in `lib/utils.ts` and the UI indicator.
+ */
+
+// ─── Constants ─────────────────────────────────────────────────
+
+const STORAGE_KEY = "docurepo:rate-limit";
+
+/** Fired on window whenever the known rate-limit state changes. */
+export const RATE_LIMIT_EVENT = "docurepo:rate-limit-updated";
+
+/** Below this many remaining requests, API calls are queued and spaced out. */
+export const LOW_WATER_MARK = 10;
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  /** Timestamp (ms) when the quota resets */
+  resetAt: number;
+  /** Whether the requests that produced this state were authenticated */
+  authenticated: boolean;
+}
+
+// ─── State ─────────────────────────────────────────────────────
+
+let current: RateLimitState | null = null;
+let loaded = false;
+
+function load(): void {
+  if (loaded || typeof window === "undefined") return;
+  loaded = true;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) current = JSON.parse(raw) as RateLimitState;
+  } catch {}
+}
+
+/**
+ * Latest known rate-limit state, or null if unknown or the window has
+ * already reset.
+ */
+export function getRateLimit(): RateLimitState | null {
+  load();
+  if (current && current.resetAt <= Date.now()) return null;
+  return current;
+}
+
+/** Record the rate-limit headers of an API response. */
+export function recordRateLimit(headers: Headers, authenticated: boolean): void {
+  const limit = Number(headers.get("X-RateLimit-Limit"));
+  const remaining = Number(headers.get("X-RateLimit-Remaining"));
+  const reset = Number(headers.get("X-RateLimit-Reset"));
+
+  if (!headers.has("X-RateLimit-Remaining") || Number.isNaN(remaining)) return;
+
+  current = {
+    limit: Number.isNaN(limit) ? 0 : limit,
+    remaining,
+    resetAt: Number.isNaN(reset) ? Date.now() + 3_600_000 : reset * 1000,
+    authenticated,
+  };
+  loaded = true;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+    window.dispatchEvent(new CustomEvent(RATE_LIMIT_EVENT));
+  } catch {}
+}
+
+/** Subscribe to rate-limit changes (for useSyncExternalStore). */
+export function subscribeRateLimit(callback: () => void): () => void {
+  window.addEventListener(RATE_LIMIT_EVENT, callback);
+  return () => window.removeEventListener(RATE_LIMIT_EVENT, callback);
+}
+
+/** Format a reset timestamp as a local clock time, e.g. "14:05". */
+export function formatResetTime(resetAt: number): string {
+  return new Date(resetAt).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Access tokens — stored in localStorage, scoped per repo or per host.
+ * Named for GitHub, but GitLab and Gitea tokens live here too.
+ *
+ * Lookup order for a repo:
+ *   1. Token saved for that repo (its repo id, e.g. "owner/name")
+ *   2. Token saved for the host ("github.com", "gitlab.com", …)
+ *   3. Legacy single token under `docurepo:token` (github.com only)
+ */
+
+import { GITHUB_HOST, repoId } from "./sources/types";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+const STORAGE_KEY = "docurepo:tokens";
+const LEGACY_STORAGE_KEY = "docurepo:token";
+
+export { GITHUB_HOST };
+
+/** Fired on window whenever a token is added or removed. */
+export const TOKENS_UPDATED_EVENT = "docurepo:tokens-updated";
+
+// ─── Storage ───────────────────────────────────────────────────
+
+/**
+ * Token map keyed by scope: a host ("github.com") or a repo id
+ * ("owner/name" on GitHub, "host/owner/name" elsewhere).
+ */
+export type TokenMap = Record<string, string>;
+
+export function loadTokens(): TokenMap {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const tokens = raw ? (JSON.parse(raw) as TokenMap) : {};
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy && !tokens[GITHUB_HOST]) {
+      tokens[GITHUB_HOST] = legacy;
+    }
+    return tokens;
+  } catch {
+    return {};
+  }
+}
+
+function saveTokens(tokens: TokenMap): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+    window.dispatchEvent(new CustomEvent(TOKENS_UPDATED_EVENT));
+  } catch {}
+}
+
+export function setToken(scope: string, token: string): void {
+  const tokens = loadTokens();
+  tokens[scope] = token.trim();
+  saveTokens(tokens);
+}
+
+export function removeToken(scope: string): void {
+  const tokens = loadTokens();
+  delete tokens[scope];
+  if (scope === GITHUB_HOST) {
+    try {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch {}
+  }
+  saveTokens(tokens);
+}
+
+// ─── Lookup ────────────────────────────────────────────────────
+
+/**
+ * Resolve the token to use for a repository, or undefined for anonymous access.
+ */
+export function getToken(
+  owner?: string,
+  repo?: string,
+  host: string = GITHUB_HOST,
+): string | undefined {
+  const tokens = loadTokens();
+  if (owner && repo) {
+    const repoToken = tokens[repoId({ host, owner, name: repo })];
+    if (repoToken) return repoToken;
+  }
+  return tokens[host] || undefined;
+}
+
+/** Mask a token for display, keeping only its prefix and last four characters. */
+export function maskToken(token: string): string {
+  if (token.length <= 8) return "••••";
+  const prefix = token.match(/^(ghp_|github_pat_|gho_|glpat-)/)?.[0] ?? "";
+  return `${prefix}••••${token.slice(-4)}`;
+}
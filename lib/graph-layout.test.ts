@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { buildNoteGraph, folderGroup, layoutStep, type NoteGraph } from "./graph-layout";
+import type { LinkIndex } from "./note-links";
+
+// a ↔ b → c → d, e alone, plus links to itself and to a missing note
+function linkIndex(): LinkIndex {
+  const links: Record<string, string[]> = {
+    "a.md": ["b.md", "a.md", "missing.md"],
+    "b.md": ["a.md", "lists/c.md"],
+    "lists/c.md": ["trees/d.md"],
+    "trees/d.md": [],
+    "e.md": [],
+  };
+  return {
+    links: Object.fromEntries(
+      Object.entries(links).map(([source, targets]) => [source, targets.map((target) => ({ target, snippet: "" }))]),
+    ),
+    bodies: Object.fromEntries(Object.keys(links).map((path) => [path, ""])),
+  };
+}
+
+const ids = (graph: NoteGraph) => graph.nodes.map((node) => node.id);
+
+describe("buildNoteGraph", () => {
+  it("has a node per note and one edge per linked pair", () => {
+    const graph = buildNoteGraph(linkIndex());
+    expect(ids(graph)).toEqual(["a.md", "b.md", "e.md", "lists/c.md", "trees/d.md"]);
+    expect(graph.edges).toEqual([
+      { source: "a.md", target: "b.md" },
+      { source: "b.md", target: "lists/c.md" },
+      { source: "lists/c.md", target: "trees/d.md" },
+    ]);
+    expect(graph.nodes.map((node) => node.degree)).toEqual([1, 2, 0, 2, 1]);
+  });
+
+  it("keeps a local graph to notes within `depth` links, either way", () => {
+    const local = buildNoteGraph(linkIndex(), { center: "lists/c.md" });
+    expect(ids(local)).toEqual(["b.md", "lists/c.md", "trees/d.md"]);
+    expect(local.edges).toHaveLength(2);
+
+    expect(ids(buildNoteGraph(linkIndex(), { center: "lists/c.md", depth: 2 }))).toEqual([
+      "a.md",
+      "b.md",
+      "lists/c.md",
+      "trees/d.md",
+    ]);
+  });
+
+  it("shows the whole graph when the centre isn't a note", () => {
+    expect(buildNoteGraph(linkIndex(), { center: "missing.md" }).nodes).toHaveLength(5);
+  });
+
+  it("starts nodes apart from each other", () => {
+    const { nodes } = buildNoteGraph(linkIndex());
+    const positions = new Set(nodes.map((node) => `${node.x.toFixed(3)},${node.y.toFixed(3)}`));
+    expect(positions.size).toBe(nodes.length);
+  });
+});
+
+describe("folderGroup", () => {
+  it("is the top-level folder under the notes root", () => {
+    expect(folderGroup("lists/linked/a.md")).toBe("lists");
+    expect(folderGroup("a.md")).toBe("");
+    expect(folderGroup("courses/cs/lists/a.md", "/courses/cs/")).toBe("lists");
+    expect(folderGroup("courses/cs/a.md", "courses/cs")).toBe("");
+  });
+});
+
+describe("layoutStep", () => {
+  const distance = (graph: NoteGraph, a: string, b: string) => {
+    const [na, nb] = [a, b].map((id) => graph.nodes.find((node) => node.id === id)!);
+    return Math.hypot(na.x - nb.x, na.y - nb.y);
+  };
+
+  it("settles linked notes about a link's length apart", () => {
+    const graph = buildNoteGraph(linkIndex());
+    for (let i = 0; i < 300; i++) layoutStep(graph, 1 - i / 300);
+
+    for (const { source, target } of graph.edges) {
+      expect(distance(graph, source, target)).toBeGreaterThan(55);
+      expect(distance(graph, source, target)).toBeLessThan(85);
+    }
+    for (const node of graph.nodes) {
+      expect(Number.isFinite(node.x) && Number.isFinite(node.y)).toBe(true);
+    }
+  });
+
+  it("pushes apart notes that start in the same place", () => {
+    const graph: NoteGraph = {
+      nodes: ["a.md", "b.md"].map((id) => ({ id, group: "", degree: 0, x: 0, y: 0, vx: 0, vy: 0 })),
+      edges: [],
+    };
+    layoutStep(graph, 1);
+    expect(distance(graph, "a.md", "b.md")).toBeGreaterThan(0);
+  });
+});
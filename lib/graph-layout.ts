@@ -0,0 +1,178 @@
+/**
+ * Note graph
+ *
+ * Notes as nodes and the links between them as edges, built from the
+ * link index (see `note-links.ts`), plus a small force layout: nodes
+ * push each other apart, links pull their ends together, and a weak pull
+ * keeps everything near the middle. Nodes are coloured by top-level folder.
+ */
+
+import type { LinkIndex } from "./note-links";
+import { normalizeRootPath } from "./utils";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface GraphNode {
+  /** Note path */
+  id: string;
+  /** Top-level folder under the notes root, "" for notes at the root */
+  group: string;
+  /** Links to and from the note */
+  degree: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+}
+
+export interface NoteGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// ─── Constants ─────────────────────────────────────────────────
+
+const LINK_DISTANCE = 70;
+const LINK_STRENGTH = 0.08;
+const REPULSION = 900;
+const CENTERING = 0.02;
+const VELOCITY_DECAY = 0.55;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// ─── Building ──────────────────────────────────────────────────
+
+/**
+ * Graph of every note in the index, or with `center`, of the notes within
+ * `depth` links of it (in either direction).
+ */
+export function buildNoteGraph(
+  index: LinkIndex,
+  options: { rootPath?: string; center?: string; depth?: number } = {},
+): NoteGraph {
+  const notes = new Set(Object.keys(index.bodies));
+
+  // One undirected edge per linked pair
+  const pairs = new Map<string, GraphEdge>();
+  for (const [source, links] of Object.entries(index.links)) {
+    for (const { target } of links) {
+      if (source === target || !notes.has(target)) continue;
+      const key = source < target ? `${source}\n${target}` : `${target}\n${source}`;
+      if (!pairs.has(key)) pairs.set(key, { source, target });
+    }
+  }
+  let edges = Array.from(pairs.values());
+
+  let included = notes;
+  if (options.center && notes.has(options.center)) {
+    included = neighbourhood(options.center, edges, options.depth ?? 1);
+    edges = edges.filter((edge) => included.has(edge.source) && included.has(edge.target));
+  }
+
+  const degree = new Map<string, number>();
+  for (const { source, target } of edges) {
+    degree.set(source, (degree.get(source) ?? 0) + 1);
+    degree.set(target, (degree.get(target) ?? 0) + 1);
+  }
+
+  const root = normalizeRootPath(options.rootPath);
+  const nodes = Array.from(included)
+    .sort()
+    .map((id, i) => {
+      // Spread the start positions on a spiral so nothing overlaps
+      const radius = 12 * Math.sqrt(0.5 + i);
+      return {
+        id,
+        group: folderGroup(id, root),
+        degree: degree.get(id) ?? 0,
+        x: radius * Math.cos(i * GOLDEN_ANGLE),
+        y: radius * Math.sin(i * GOLDEN_ANGLE),
+        vx: 0,
+        vy: 0,
+      };
+    });
+
+  return { nodes, edges };
+}
+
+/** Top-level folder of a note under the notes root. */
+export function folderGroup(path: string, rootPath?: string): string {
+  const root = normalizeRootPath(rootPath);
+  const relative = root && path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path;
+  return relative.includes("/") ? relative.slice(0, relative.indexOf("/")) : "";
+}
+
+// ─── Layout ────────────────────────────────────────────────────
+
+/**
+ * Advance the layout one step. `alpha` (1 → 0) scales every force, so the
+ * graph settles as it cools. Moves nodes in place.
+ */
+export function layoutStep(graph: NoteGraph, alpha: number): void {
+  const { nodes, edges } = graph;
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+
+  for (let i = 0; i < nodes.length; i++) {
+    const a = nodes[i];
+    for (let j = i + 1; j < nodes.length; j++) {
+      const b = nodes[j];
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      if (dx === 0 && dy === 0) {
+        dx = (Math.random() - 0.5) * 1e-3;
+        dy = (Math.random() - 0.5) * 1e-3;
+      }
+      const distance2 = Math.max(dx * dx + dy * dy, 25);
+      const force = (REPULSION * alpha) / distance2;
+      const distance = Math.sqrt(distance2);
+      a.vx -= (dx / distance) * force;
+      a.vy -= (dy / distance) * force;
+      b.vx += (dx / distance) * force;
+      b.vy += (dy / distance) * force;
+    }
+  }
+
+  for (const edge of edges) {
+    const a = byId.get(edge.source);
+    const b = byId.get(edge.target);
+    if (!a || !b) continue;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+    const force = ((distance - LINK_DISTANCE) / distance) * LINK_STRENGTH * alpha;
+    a.vx += dx * force;
+    a.vy += dy * force;
+    b.vx -= dx * force;
+    b.vy -= dy * force;
+  }
+
+  for (const node of nodes) {
+    node.vx = (node.vx - node.x * CENTERING * alpha) * VELOCITY_DECAY;
+    node.vy = (node.vy - node.y * CENTERING * alpha) * VELOCITY_DECAY;
+    node.x += node.vx;
+    node.y += node.vy;
+  }
+}
+
+/* Helpers */
+
+// Notes reachable from `center` in at most `depth` steps
+function neighbourhood(center: string, edges: GraphEdge[], depth: number): Set<string> {
+  const adjacent = new Map<string, string[]>();
+  for (const { source, target } of edges) {
+    adjacent.set(source, [...(adjacent.get(source) ?? []), target]);
+    adjacent.set(target, [...(adjacent.get(target) ?? []), source]);
+  }
+
+  const seen = new Set([center]);
+  let frontier = [center];
+  for (let step = 0; step < depth; step++) {
+    frontier = frontier.flatMap((id) => adjacent.get(id) ?? []).filter((id) => !seen.has(id));
+    frontier.forEach((id) => seen.add(id));
+  }
+  return seen;
+}
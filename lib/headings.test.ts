@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { createSlugger, headingSlug, leadSection, noteSection } from "./headings";
+
+describe("headingSlug", () => {
+  it("makes GitHub-style anchors", () => {
+    expect(headingSlug("Linked Lists: Basics")).toBe("linked-lists-basics");
+    expect(headingSlug("  What's O(n)?  ")).toBe("whats-on");
+    expect(headingSlug("snake_case and kebab-case")).toBe("snake_case-and-kebab-case");
+  });
+
+  it("keeps letters and digits in any script", () => {
+    expect(headingSlug("Café Ökonomie 2")).toBe("café-ökonomie-2");
+    expect(headingSlug("数据 结构")).toBe("数据-结构");
+  });
+});
+
+describe("createSlugger", () => {
+  it("numbers repeated headings like GitHub", () => {
+    const slug = createSlugger();
+    expect(["Example", "Example", "Example-1", "example"].map(slug)).toEqual([
+      "example",
+      "example-1",
+      "example-1-1",
+      "example-2",
+    ]);
+  });
+
+  it("starts over for each document", () => {
+    createSlugger()("Example");
+    expect(createSlugger()("Example")).toBe("example");
+  });
+});
+
+describe("noteSection", () => {
+  const body = [
+    "# Lists",
+    "Intro",
+    "## Insertion",
+    "Add a node.",
+    "### At the head",
+    "O(1)",
+    "```md",
+    "## Not a heading",
+    "```",
+    "## Deletion ##",
+    "Remove a node.",
+  ].join("\n");
+
+  it("runs to the next heading of the same or a higher level", () => {
+    expect(noteSection(body, "Insertion")).toBe(
+      ["## Insertion", "Add a node.", "### At the head", "O(1)", "```md", "## Not a heading", "```"].join("\n"),
+    );
+  });
+
+  it("matches headings by text or slug, ignoring closing hashes", () => {
+    expect(noteSection(body, "deletion")).toBe("## Deletion ##\nRemove a node.");
+    expect(noteSection(body, "at-the-head")).toBe("### At the head\nO(1)\n```md\n## Not a heading\n```");
+  });
+
+  it("skips headings inside fenced code", () => {
+    expect(noteSection(body, "Not a heading")).toBeNull();
+    expect(noteSection(body, "Missing")).toBeNull();
+  });
+});
+
+describe("leadSection", () => {
+  it("is the title and the text under it", () => {
+    expect(leadSection("# Lists\n\nIntro text.\n\n## Insertion\nAdd.")).toBe("# Lists\n\nIntro text.");
+  });
+
+  it("is the intro of a note that starts with text", () => {
+    expect(leadSection("Intro text.\n# Lists\nMore.")).toBe("Intro text.");
+  });
+
+  it("counts fenced code as text and skips headings inside it", () => {
+    expect(leadSection("# Lists\n```\n# comment\n```\n## Insertion")).toBe("# Lists\n```\n# comment\n```");
+  });
+
+  it("is the whole note when nothing follows", () => {
+    expect(leadSection("# Lists\n## Insertion\nAdd.\n\n")).toBe("# Lists\n## Insertion\nAdd.");
+  });
+});
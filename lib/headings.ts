@@ -0,0 +1,107 @@
+/**
+ * Heading anchors
+ *
+ * Headings get GitHub-style ids ("Linked Lists: Basics" → "linked-lists-basics"),
+ * so `#anchor` links written for GitHub keep working here. Repeated
+ * headings are numbered like on GitHub: "example", "example-1", ….
+ */
+
+// ─── Slugs ─────────────────────────────────────────────────────
+
+/** GitHub-style anchor id for a heading's text. */
+export function headingSlug(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Slug function for one document: the same text gets "-1", "-2", …
+ * appended after its first use.
+ */
+export function createSlugger(): (text: string) => string {
+  const seen = new Map<string, number>();
+  return (text) => {
+    const base = headingSlug(text);
+    let slug = base;
+    let count = seen.get(base) ?? 0;
+    while (seen.has(slug)) slug = `${base}-${++count}`;
+    seen.set(base, count);
+    seen.set(slug, 0);
+    return slug;
+  };
+}
+
+// ─── Sections ──────────────────────────────────────────────────
+
+const HEADING_RE = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_RE = /^[ \t]*(```|~~~)/;
+
+/**
+ * The part of a note under `heading`: the heading line and everything up
+ * to the next heading of the same or a higher level. Null if the note
+ * has no such heading.
+ */
+export function noteSection(body: string, heading: string): string | null {
+  const wanted = headingSlug(heading);
+  const lines = body.split(/\r?\n/);
+  let fence: string | null = null;
+  let start = -1;
+  let level = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const fenceMatch = lines[i].match(FENCE_RE);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      continue;
+    }
+    if (fence) continue;
+
+    const match = lines[i].match(HEADING_RE);
+    if (!match) continue;
+
+    if (start === -1) {
+      if (headingSlug(match[2]) === wanted) {
+        start = i;
+        level = match[1].length;
+      }
+    } else if (match[1].length <= level) {
+      return lines.slice(start, i).join("\n");
+    }
+  }
+
+  return start === -1 ? null : lines.slice(start).join("\n");
+}
+
+/**
+ * The opening of a note, as shown in link previews: everything before the
+ * first heading that follows some text. That's the intro of a note that
+ * starts with text, or the title and the text under it.
+ */
+export function leadSection(body: string): string {
+  const lines = body.split(/\r?\n/);
+  let fence: string | null = null;
+  let hasText = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const fenceMatch = lines[i].match(FENCE_RE);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      hasText = true;
+      continue;
+    }
+    if (fence) continue;
+
+    if (HEADING_RE.test(lines[i])) {
+      if (hasText) return lines.slice(0, i).join("\n").trimEnd();
+    } else if (lines[i].trim()) {
+      hasText = true;
+    }
+  }
+
+  return body.trimEnd();
+}
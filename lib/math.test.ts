@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { extractMath, restoreMath, tokenizeMath } from "./math";
+
+const inline = (tex: string) => ({ tex, display: false, source: `$${tex}$` });
+
+describe("tokenizeMath", () => {
+  it("finds inline and display math", () => {
+    expect(tokenizeMath("Area $\\pi r^2$ and\n$$\n\\int_0^1 x\\,dx\n$$\ndone")).toEqual([
+      "Area ",
+      inline("\\pi r^2"),
+      " and\n",
+      { tex: "\\int_0^1 x\\,dx", display: true, source: "$$\n\\int_0^1 x\\,dx\n$$" },
+      "\ndone",
+    ]);
+  });
+
+  it("follows Pandoc's rules for dollar amounts", () => {
+    expect(tokenizeMath("$5 and $10")).toEqual(["$5 and $10"]);
+    expect(tokenizeMath("$ x$ and $x $")).toEqual(["$ x$ and $x $"]);
+    expect(tokenizeMath("costs $x$5")).toEqual(["costs $x$5"]);
+  });
+
+  it("treats \\$ as a literal dollar, inside and outside math", () => {
+    expect(tokenizeMath("\\$5 and $a\\$b$")).toEqual(["\\$5 and ", inline("a\\$b")]);
+  });
+
+  it("keeps inline math on one line and display math in one paragraph", () => {
+    expect(tokenizeMath("$a\nb$")).toEqual(["$a\nb$"]);
+    expect(tokenizeMath("$$a\n\nb$$")).toEqual(["$$a\n\nb$$"]);
+    expect(tokenizeMath("$$ $$")).toEqual(["$$ $$"]);
+  });
+
+  it("leaves code spans and fenced code alone", () => {
+    const text = "`$x$` and ``a ` $y$``\n```\n$z$\n```\n~~~~\n```\n$w$\n~~~~\n$v$";
+    expect(tokenizeMath(text)).toEqual([text.slice(0, -3), inline("v")]);
+  });
+
+  it("doesn't let an unclosed $$ open inline math", () => {
+    expect(tokenizeMath("$$x$ ")).toEqual(["$$x$ "]);
+  });
+});
+
+describe("extractMath", () => {
+  it("swaps expressions for placeholders and back", () => {
+    const note = "# Euler $e^{i\\pi}$\n\n$$a_1 * b_2$$\n\n`$code$`";
+    const { markdown, math } = extractMath(note);
+
+    expect(markdown).not.toContain("$e");
+    expect(markdown).toContain("`$code$`");
+    expect(math.map((span) => span.tex)).toEqual(["e^{i\\pi}", "a_1 * b_2"]);
+    expect(restoreMath(markdown, math)).toBe(note);
+  });
+
+  it("leaves unknown placeholders as they are", () => {
+    expect(restoreMath("a \uE0007\uE001 b", [])).toBe("a \uE0007\uE001 b");
+  });
+});
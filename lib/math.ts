@@ -0,0 +1,167 @@
+/**
+ * Math
+ *
+ * `$…$` (inline) and `$$…$$` (display) LaTeX in notes and flashcards.
+ * Markdown would read the `_`, `*` and `\` inside a formula as emphasis
+ * and escapes, so notes have their math cut out before parsing and left
+ * as placeholders, which `remark-math.ts` turns back into equations.
+ *
+ * Delimiters follow Pandoc: `$5 and $10` isn't math, because an opening
+ * `$` must be followed (and a closing `$` preceded) by a non-space, and a
+ * closing `$` can't be followed by a digit. `\$` is a literal dollar, and
+ * code spans and fenced code are left alone.
+ */
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface MathSpan {
+  /** LaTeX between the delimiters */
+  tex: string;
+  /** `$$…$$` rather than `$…$` */
+  display: boolean;
+  /** The expression as written, delimiters included */
+  source: string;
+}
+
+/** Plain text, or an expression. */
+export type MathToken = string | MathSpan;
+
+// ─── Constants ─────────────────────────────────────────────────
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Matches the placeholders left by `extractMath` (private-use characters
+ * around the expression's index); group 1 is the index.
+ */
+export const MATH_PLACEHOLDER_RE = /\uE000(\d+)\uE001/g;
+
+// ─── Tokenizing ────────────────────────────────────────────────
+
+/** Split text into plain runs and math expressions. */
+export function tokenizeMath(text: string): MathToken[] {
+  const tokens: MathToken[] = [];
+  let plain = "";
+  let fence: string | null = null;
+  let i = 0;
+
+  while (i < text.length) {
+    // Fenced code blocks are copied line by line, untouched
+    if (i === 0 || text[i - 1] === "\n") {
+      const end = text.indexOf("\n", i) + 1 || text.length;
+      const marker = FENCE_RE.exec(text.slice(i, end))?.[1];
+      if (fence && marker && marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      } else if (!fence && marker) {
+        fence = marker;
+      }
+      if (fence || marker) {
+        plain += text.slice(i, end);
+        i = end;
+        continue;
+      }
+    }
+
+    const char = text[i];
+
+    if (char === "\\") {
+      plain += text.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = codeSpanEnd(text, i);
+      plain += text.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === "$") {
+      const isDisplay = text.startsWith("$$", i);
+      const span = isDisplay ? displayMathAt(text, i) : inlineMathAt(text, i);
+      if (span) {
+        if (plain) tokens.push(plain);
+        tokens.push(span);
+        plain = "";
+        i += span.source.length;
+      } else {
+        // An unclosed "$$" stays text, and its second "$" can't open inline math
+        plain += isDisplay ? "$$" : "$";
+        i += isDisplay ? 2 : 1;
+      }
+      continue;
+    }
+
+    plain += char;
+    i++;
+  }
+
+  if (plain) tokens.push(plain);
+  return tokens;
+}
+
+/**
+ * Replace every expression in a note with a placeholder markdown leaves
+ * alone. `math[n]` is the expression behind placeholder `n`.
+ */
+export function extractMath(markdown: string): { markdown: string; math: MathSpan[] } {
+  const math: MathSpan[] = [];
+  const text = tokenizeMath(markdown)
+    .map((token) => (typeof token === "string" ? token : `\uE000${math.push(token) - 1}\uE001`))
+    .join("");
+  return { markdown: text, math };
+}
+
+/** Put the original source back in place of placeholders. */
+export function restoreMath(text: string, math: MathSpan[]): string {
+  return text.replace(MATH_PLACEHOLDER_RE, (placeholder, index: string) => math[Number(index)]?.source ?? placeholder);
+}
+
+/* Helpers */
+
+// End of the code span opened by the backtick run at `start`, or of the
+// run itself when nothing closes it
+function codeSpanEnd(text: string, start: number): number {
+  let open = start;
+  while (text[open] === "`") open++;
+  const length = open - start;
+
+  for (let i = open; i < text.length; i++) {
+    if (text[i] !== "`") continue;
+    let close = i;
+    while (text[close] === "`") close++;
+    if (close - i === length) return close;
+    i = close;
+  }
+  return open;
+}
+
+function displayMathAt(text: string, start: number): MathSpan | null {
+  const close = text.indexOf("$$", start + 2);
+  if (close === -1) return null;
+
+  const tex = text.slice(start + 2, close);
+  // A blank line ends the paragraph, so this "$$" isn't closed after all
+  if (!tex.trim() || /\n[ \t]*\n/.test(tex)) return null;
+
+  return { tex: tex.trim(), display: true, source: text.slice(start, close + 2) };
+}
+
+function inlineMathAt(text: string, start: number): MathSpan | null {
+  if (!/\S/.test(text[start + 1] ?? "")) return null;
+
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") return null;
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+    if (char !== "$") continue;
+    if (/\s/.test(text[i - 1]) || /\d/.test(text[i + 1] ?? "")) continue;
+
+    return { tex: text.slice(start + 1, i), display: false, source: text.slice(start, i + 1) };
+  }
+  return null;
+}
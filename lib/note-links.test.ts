@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { resolveRelativeLink } from "./note-links";
+
+describe("resolveRelativeLink", () => {
+  const from = "courses/cs/week2/lists.md";
+
+  it("resolves against the note's folder", () => {
+    expect(resolveRelativeLink("trees.md", from)).toEqual({ path: "courses/cs/week2/trees.md" });
+    expect(resolveRelativeLink("./img/a.png", from)).toEqual({ path: "courses/cs/week2/img/a.png" });
+  });
+
+  it("follows any number of ../ and ./ segments", () => {
+    expect(resolveRelativeLink("../../img/a.png", from)).toEqual({ path: "courses/img/a.png" });
+    expect(resolveRelativeLink("./a/../b.png", from)).toEqual({ path: "courses/cs/week2/b.png" });
+    expect(resolveRelativeLink("../../../../a.png", from)).toEqual({ path: "a.png" });
+  });
+
+  it("resolves /paths against the notes root", () => {
+    expect(resolveRelativeLink("/img/a.png", from, "courses/cs")).toEqual({ path: "courses/cs/img/a.png" });
+    expect(resolveRelativeLink("/img/a.png", from)).toEqual({ path: "img/a.png" });
+  });
+
+  it("decodes escapes and keeps the fragment", () => {
+    expect(resolveRelativeLink("My%20Note.md#Some%20Heading", "a.md")).toEqual({
+      path: "My Note.md",
+      hash: "Some Heading",
+    });
+  });
+
+  it("leaves external and same-page links alone", () => {
+    for (const href of ["https://example.com/a.png", "//cdn.example.com/a.png", "data:image/png;base64,AA", "#top"]) {
+      expect(resolveRelativeLink(href, from)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Links between notes
+ *
+ * A repo's link index records, for every note, the notes it links to:
+ * relative markdown links (`[text](../week2/intro.md)`) and wikilinks
+ * (`[[Intro]]`, `![[Intro]]`), each with the line it appears on. Reading
+ * it backwards gives a note's backlinks ("linked mentions"); the note
+ * bodies kept alongside let us find its title written as plain text
+ * ("unlinked mentions").
+ */
+
+import { WIKILINK_RE, parseWikiLink, type NoteResolver } from "./wikilinks";
+import { normalizeRootPath, safeDecode } from "./utils";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface NoteLink {
+  /** Path of the linked note */
+  target: string;
+  heading?: string;
+  /** The line the link is on, as plain text */
+  snippet: string;
+}
+
+export interface LinkIndex {
+  /** Outgoing links keyed by note path */
+  links: Record<string, NoteLink[]>;
+  /** Note bodies (frontmatter removed) keyed by path */
+  bodies: Record<string, string>;
+}
+
+/** Notes mentioning another note, with the lines they mention it on. */
+export interface Mention {
+  source: string;
+  snippets: string[];
+}
+
+// ─── Constants ─────────────────────────────────────────────────
+
+// [text](href) or [text](<href> "title"), not images
+const MARKDOWN_LINK_RE = /(!?)\[[^\]\n]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^)]*["'])?\s*\)/g;
+
+const SNIPPET_LENGTH = 160;
+
+// ─── Resolution ────────────────────────────────────────────────
+
+/**
+ * Repository path (and `#fragment`) a markdown link in the note at `from`
+ * points to, or null for external and same-page links. Relative paths
+ * resolve against the note's folder, "/paths" against the notes root;
+ * %-escapes (`My%20Note.md`) are decoded.
+ */
+export function resolveRelativeLink(
+  href: string,
+  from: string,
+  rootPath?: string,
+): { path: string; hash?: string } | null {
+  if (/^([a-z][a-z\d+.-]*:|\/\/)/i.test(href) || href.startsWith("#")) return null;
+
+  const hashAt = href.indexOf("#");
+  const rawPath = (hashAt === -1 ? href : href.slice(0, hashAt)).split("?")[0];
+  const hash = hashAt === -1 ? undefined : safeDecode(href.slice(hashAt + 1)) || undefined;
+  if (!rawPath) return null;
+
+  const decoded = safeDecode(rawPath);
+  const base = decoded.startsWith("/")
+    ? normalizeRootPath(rootPath)
+    : from.includes("/") ? from.slice(0, from.lastIndexOf("/")) : "";
+
+  const parts: string[] = [];
+  for (const part of `${base}/${decoded}`.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") parts.pop();
+    else parts.push(part);
+  }
+
+  return parts.length ? { path: parts.join("/"), ...(hash && { hash }) } : null;
+}
+
+// ─── Index ─────────────────────────────────────────────────────
+
+/** Links from a note body to other notes. */
+export function extractNoteLinks(
+  body: string,
+  from: string,
+  resolver: NoteResolver,
+  rootPath?: string,
+): NoteLink[] {
+  const text = withoutCode(body);
+  const links: NoteLink[] = [];
+
+  for (const match of text.matchAll(WIKILINK_RE)) {
+    const link = parseWikiLink(match[2]);
+    const target = link.target ? resolver.resolve(link.target, from) : null;
+    if (target && /\.md$/i.test(target)) {
+      links.push({
+        target,
+        ...(link.heading && { heading: link.heading }),
+        snippet: snippetAt(text, match.index ?? 0),
+      });
+    }
+  }
+
+  for (const match of text.matchAll(MARKDOWN_LINK_RE)) {
+    if (match[1]) continue;
+    const resolved = resolveRelativeLink(match[2], from, rootPath);
+    if (resolved && /\.md$/i.test(resolved.path)) {
+      links.push({
+        target: resolved.path,
+        ...(resolved.hash && { heading: resolved.hash }),
+        snippet: snippetAt(text, match.index ?? 0),
+      });
+    }
+  }
+
+  return links.filter((link) => link.target !== from);
+}
+
+/** Link index over note bodies keyed by path. */
+export function buildLinkIndex(
+  bodies: Record<string, string>,
+  resolver: NoteResolver,
+  rootPath?: string,
+): LinkIndex {
+  const links: Record<string, NoteLink[]> = {};
+  for (const [path, body] of Object.entries(bodies)) {
+    links[path] = extractNoteLinks(body, path, resolver, rootPath);
+  }
+  return { links, bodies };
+}
+
+// ─── Lookups ───────────────────────────────────────────────────
+
+/** Notes linking to `path`, in path order. */
+export function linkedMentions(index: LinkIndex, path: string): Mention[] {
+  return Object.entries(index.links)
+    .map(([source, links]) => ({
+      source,
+      snippets: unique(links.filter((link) => link.target === path).map((link) => link.snippet)),
+    }))
+    .filter((mention) => mention.snippets.length > 0)
+    .sort((a, b) => a.source.localeCompare(b.source));
+}
+
+/**
+ * Notes that write one of `names` (the note's title, file name or
+ * aliases) as a whole word without linking to `path`.
+ */
+export function unlinkedMentions(index: LinkIndex, path: string, names: string[]): Mention[] {
+  const words = unique(names.map((name) => name.trim()).filter((name) => name.length >= 3));
+  if (words.length === 0) return [];
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu",
+  );
+
+  const mentions: Mention[] = [];
+  for (const [source, body] of Object.entries(index.bodies)) {
+    if (source === path || index.links[source]?.some((link) => link.target === path)) continue;
+
+    // Drop links and code so only plain-text mentions count
+    const plain = withoutCode(body);
+    const text = plain.replace(WIKILINK_RE, blank).replace(MARKDOWN_LINK_RE, blank);
+    const snippets = unique([...text.matchAll(pattern)].map((m) => snippetAt(plain, m.index ?? 0)));
+    if (snippets.length > 0) mentions.push({ source, snippets: snippets.slice(0, 3) });
+  }
+  return mentions.sort((a, b) => a.source.localeCompare(b.source));
+}
+
+/* Helpers */
+
+// Blank out code, keeping offsets, so links in code are ignored
+function withoutCode(body: string): string {
+  return body
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, blank)
+    .replace(/`[^`\n]*`/g, blank);
+}
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+// The line around `offset`, with markdown syntax stripped and trimmed to length
+function snippetAt(text: string, offset: number): string {
+  const start = text.lastIndexOf("\n", offset) + 1;
+  const end = text.indexOf("\n", offset);
+  const line = text
+    .slice(start, end === -1 ? undefined : end)
+    .replace(/^\s*(#{1,6}\s+|[-*+]\s+(\[.\]\s+)?|\d+\.\s+|>\s*)+/, "")
+    .replace(/!?\[\[([^[\]|]*\|)?([^[\]]*)\]\]/g, "$2")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (line.length <= SNIPPET_LENGTH) return line;
+  const at = Math.max(0, Math.min(offset - start - SNIPPET_LENGTH / 2, line.length - SNIPPET_LENGTH));
+  return `${at > 0 ? "…" : ""}${line.slice(at, at + SNIPPET_LENGTH).trim()}…`;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
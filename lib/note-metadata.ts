@@ -0,0 +1,255 @@
+/**
+ * Note metadata index
+ *
+ * Frontmatter metadata (title, aliases, tags, date, authors) and inline
+ * #tags of every note the app has read — opened, searched, sorted or
+ * scanned for the tag pages — kept per repo in localStorage. The sidebar,
+ * search and tag pages look titles and tags up here without downloading
+ * notes again. Entries are dropped when a refresh reports the note
+ * changed, and re-read the next time it is opened.
+ */
+
+import { getCachedBlob, loadRepoFile } from "./content-cache";
+import { isEmptyMetadata, parseNote, type NoteMetadata, type ParsedNote } from "./frontmatter";
+import { getToken } from "./github-tokens";
+import { extractInlineTags } from "./tags";
+import { normalizeRootPath, RateLimitError, scopeTree, type GitTreeEntry, type NavItem } from "./utils";
+import { repoId, type RepoLocation } from "./sources";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+const STORAGE_KEY = "docurepo:note_metadata";
+
+/** Fired on window whenever the index is updated. */
+export const METADATA_EVENT = "docurepo:metadata-updated";
+
+// Notes recorded per batch while scanning, so pages update as it goes
+const SCAN_BATCH = 25;
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface IndexedNote extends NoteMetadata {
+  /** #tags written in the body (missing on entries saved before tag pages) */
+  inlineTags?: string[];
+}
+
+/** Metadata keyed by note path */
+export type MetadataIndex = Record<string, IndexedNote>;
+
+/** Outcome of `scanRepoNotes`. */
+export interface NoteScan {
+  scanned: number;
+  total: number;
+  /** Why the scan stopped early, e.g. the API quota ran low */
+  stoppedBy?: string;
+  /** Notes skipped because they aren't cached yet (with `cachedOnly`) */
+  missing?: number;
+}
+
+/** Indexes keyed by repo id (see `repoId`) */
+type MetadataMap = Record<string, MetadataIndex>;
+
+// ─── Store ─────────────────────────────────────────────────────
+
+/** Stable empty index, e.g. for server snapshots. */
+export const NO_METADATA: MetadataIndex = {};
+
+let cachedRaw: string | null = null;
+let cachedMap: MetadataMap = {};
+
+function readMap(): MetadataMap {
+  if (typeof window === "undefined") return {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // Re-parse only when storage changed, so snapshots stay referentially stable
+    if (raw !== cachedRaw) {
+      cachedRaw = raw;
+      cachedMap = raw ? (JSON.parse(raw) as MetadataMap) : {};
+    }
+  } catch {
+    cachedMap = {};
+  }
+  return cachedMap;
+}
+
+function writeMap(map: MetadataMap): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(map));
+    window.dispatchEvent(new CustomEvent(METADATA_EVENT));
+  } catch {}
+}
+
+/** Known metadata of a repo's notes. */
+export function getNoteMetadata(repoId: string): MetadataIndex {
+  return readMap()[repoId] ?? NO_METADATA;
+}
+
+/** Index entry for a parsed note. */
+export function indexEntry(note: ParsedNote): IndexedNote {
+  return { ...note.metadata, inlineTags: extractInlineTags(note.body) };
+}
+
+/**
+ * Store freshly parsed metadata for notes. Notes without any metadata or
+ * tags are removed, so deleting a note's frontmatter clears its entry.
+ */
+export function recordNoteMetadata(repoId: string, entries: Record<string, IndexedNote>): void {
+  const current = readMap()[repoId] ?? {};
+  const next = { ...current };
+  let changed = false;
+
+  for (const [path, metadata] of Object.entries(entries)) {
+    if (isEmptyMetadata(metadata) && !metadata.inlineTags?.length) {
+      if (path in next) {
+        delete next[path];
+        changed = true;
+      }
+    } else if (JSON.stringify(current[path]) !== JSON.stringify(metadata)) {
+      next[path] = metadata;
+      changed = true;
+    }
+  }
+
+  if (changed) writeMap({ ...readMap(), [repoId]: next });
+}
+
+/** Drop entries for notes that changed, or the whole repo without `paths`. */
+export function forgetNoteMetadata(repoId: string, paths?: string[]): void {
+  const map = { ...readMap() };
+  const current = map[repoId];
+  if (!current) return;
+
+  if (paths) {
+    const next = { ...current };
+    for (const path of paths) delete next[path];
+    if (Object.keys(next).length === Object.keys(current).length) return;
+    map[repoId] = next;
+  } else {
+    delete map[repoId];
+  }
+  writeMap(map);
+}
+
+/** Subscribe to index changes (for useSyncExternalStore). */
+export function subscribeNoteMetadata(callback: () => void): () => void {
+  window.addEventListener(METADATA_EVENT, callback);
+  window.addEventListener("storage", callback);
+  return () => {
+    window.removeEventListener(METADATA_EVENT, callback);
+    window.removeEventListener("storage", callback);
+  };
+}
+
+// ─── Scanning ──────────────────────────────────────────────────
+
+/**
+ * Whether a scan may download the notes it hasn't cached. Reading is free
+ * for local sources and cheap with a token; without one, GitHub allows 60
+ * requests an hour, so scans stick to the cache until asked.
+ */
+export function canDownloadNotes(repo: RepoLocation): boolean {
+  return repo.provider === "local" || !!getToken(repo.owner, repo.name, repo.host);
+}
+
+/**
+ * Read every note under `rootPath` into the index. `onNote` sees each
+ * parsed note (e.g. to collect frontmatter order).
+ *
+ * Files come from the sha-keyed content cache, so only notes that changed
+ * since the last scan are downloaded. Requests are low priority: once the
+ * API quota runs low the scan stops, keeping what it has read so far.
+ * With `cachedOnly` nothing is downloaded; notes that aren't cached are
+ * counted in `missing` instead.
+ */
+export async function scanRepoNotes(
+  repo: RepoLocation,
+  tree: GitTreeEntry[],
+  options: { ref: string; rootPath?: string; cachedOnly?: boolean },
+  callbacks: {
+    onNote?: (path: string, note: ParsedNote) => void;
+    onProgress?: (scan: NoteScan) => void;
+  } = {},
+): Promise<NoteScan> {
+  const notes = scopeTree(tree, normalizeRootPath(options.rootPath)).filter(
+    (entry) => entry.type === "blob" && entry.path.toLowerCase().endsWith(".md"),
+  );
+  const scan: NoteScan = { scanned: 0, total: notes.length };
+  let batch: Record<string, IndexedNote> = {};
+
+  const flush = () => {
+    recordNoteMetadata(repoId(repo), batch);
+    batch = {};
+    callbacks.onProgress?.({ ...scan });
+  };
+  callbacks.onProgress?.({ ...scan });
+
+  for (const entry of notes) {
+    let text: string | undefined;
+    try {
+      text = options.cachedOnly
+        ? entry.sha && (await getCachedBlob(entry.sha))
+        : await loadRepoFile(repo, entry.path, { ref: options.ref, priority: "low" });
+    } catch (e) {
+      if (e instanceof RateLimitError) {
+        scan.stoppedBy = e.message;
+        break;
+      }
+      // Skip files that can't be fetched
+      continue;
+    }
+    if (text === undefined) {
+      scan.missing = (scan.missing ?? 0) + 1;
+      continue;
+    }
+
+    const note = parseNote(text);
+    batch[entry.path] = indexEntry(note);
+    callbacks.onNote?.(entry.path, note);
+    scan.scanned++;
+    if (scan.scanned % SCAN_BATCH === 0) flush();
+  }
+
+  flush();
+  return scan;
+}
+
+// ─── Lookups ───────────────────────────────────────────────────
+
+/**
+ * Use frontmatter titles for notes in a sidebar. `keep` marks items whose
+ * title was set explicitly (e.g. in `.docurepo.yml`) and wins.
+ */
+export function applyNoteTitles(
+  items: NavItem[],
+  index: MetadataIndex,
+  keep: (item: NavItem) => boolean = () => false,
+): NavItem[] {
+  if (index === NO_METADATA) return items;
+  return items.map((item) => {
+    if (item.items) return { ...item, items: applyNoteTitles(item.items, index, keep) };
+    const title = index[item.url]?.title;
+    return title && !keep(item) ? { ...item, title } : item;
+  });
+}
+
+/** Title, aliases and tags of a note, lowercased, for text matching. */
+export function searchableText(metadata: IndexedNote | undefined): string[] {
+  if (!metadata) return [];
+  return [metadata.title ?? "", ...metadata.aliases, ...metadata.tags, ...(metadata.inlineTags ?? [])]
+    .filter(Boolean)
+    .map((value) => value.toLowerCase());
+}
+
+/** First words of a note body as plain text, for previews. */
+export function notePreview(body: string, length = 180): string {
+  const text = body
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, "")
+    .split("\n")
+    .filter((line) => line.trim() && !/^\s*(#{1,6}\s|>\s*\[!|---|\|)/.test(line))
+    .join(" ")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[#*_`>~]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+}
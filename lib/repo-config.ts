@@ -0,0 +1,296 @@
+/**
+ * Repository configuration (`.docurepo.yml`)
+ *
+ * An optional file at the notes root that lets authors control how their
+ * repo appears:
+ *
+ *   sidebar:
+ *     order:                  # per folder ("/" is the notes root)
+ *       /: [README.md, Syllabus, Weeks]
+ *       Weeks: [Intro.md]
+ *     titles:
+ *       README.md: Start here
+ *     hidden: [drafts, "*.draft.md", templates/old]
+ *   flashcards: [Revision]    # extra flashcard folders
+ *   theme: nord               # default theme (until the reader picks one)
+ *   callouts:
+ *     aside: note             # [!aside] renders like [!note]
+ *
+ * Paths are relative to the notes root. Invalid parts are dropped and
+ * reported, so one typo doesn't disable the whole file.
+ */
+
+import * as yaml from "js-yaml";
+import type { GitTreeEntry, NavItem } from "./utils";
+import { normalizeRootPath } from "./utils";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+export const CONFIG_FILES = [".docurepo.yml", ".docurepo.yaml"];
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface RepoConfig {
+  sidebar?: {
+    /** Folder path ("/" for the root) → child names listed first, in order */
+    order?: Record<string, string[]>;
+    /** Path → display title */
+    titles?: Record<string, string>;
+    /** Glob patterns of paths to leave out of the sidebar */
+    hidden?: string[];
+  };
+  /** Folders to treat as flashcard folders, besides ones named "Flashcards" */
+  flashcards?: string[];
+  /** Theme id used until the reader picks a theme */
+  theme?: string;
+  /** Custom callout type → built-in callout type */
+  callouts?: Record<string, string>;
+}
+
+export interface RepoConfigResult {
+  /** Config file path inside the repo */
+  path: string;
+  config: RepoConfig;
+  /** Validation problems, e.g. `theme: unknown theme "solar"` */
+  errors: string[];
+}
+
+// ─── Loading ───────────────────────────────────────────────────
+
+/** Config file path at the notes root, if the tree has one. */
+export function findConfigPath(tree: GitTreeEntry[], rootPath?: string): string | null {
+  const root = normalizeRootPath(rootPath);
+  for (const name of CONFIG_FILES) {
+    const path = root ? `${root}/${name}` : name;
+    if (tree.some((entry) => entry.type === "blob" && entry.path === path)) return path;
+  }
+  return null;
+}
+
+/**
+ * Parse and validate a config file. `known` lists valid theme ids and
+ * callout types, which live with their UI components.
+ */
+export function parseRepoConfig(
+  path: string,
+  text: string,
+  known: { themes: string[]; callouts: string[] },
+): RepoConfigResult {
+  const errors: string[] = [];
+  const config: RepoConfig = {};
+
+  let raw: unknown;
+  try {
+    raw = yaml.load(text);
+  } catch (e) {
+    const reason = e instanceof yaml.YAMLException ? e.reason : String(e);
+    return { path, config, errors: [`Invalid YAML: ${reason}`] };
+  }
+
+  if (raw == null) return { path, config, errors };
+  if (!isRecord(raw)) {
+    return { path, config, errors: ["Expected a map of settings at the top level"] };
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!["sidebar", "flashcards", "theme", "callouts"].includes(key)) {
+      errors.push(`${key}: unknown setting`);
+    }
+  }
+
+  // sidebar
+  if (raw.sidebar !== undefined) {
+    if (!isRecord(raw.sidebar)) {
+      errors.push("sidebar: expected a map with order, titles and hidden");
+    } else {
+      const sidebar: NonNullable<RepoConfig["sidebar"]> = {};
+      const { order, titles, hidden } = raw.sidebar;
+
+      if (order !== undefined) {
+        if (!isRecord(order)) {
+          errors.push("sidebar.order: expected a map of folder → list of names");
+        } else {
+          sidebar.order = {};
+          for (const [folder, names] of Object.entries(order)) {
+            if (isStringList(names)) {
+              sidebar.order[normalizeConfigPath(folder)] = names;
+            } else {
+              errors.push(`sidebar.order.${folder}: expected a list of names`);
+            }
+          }
+        }
+      }
+
+      if (titles !== undefined) {
+        const valid = stringMap(titles, "sidebar.titles", errors);
+        if (valid) {
+          sidebar.titles = Object.fromEntries(
+            Object.entries(valid).map(([p, title]) => [normalizeConfigPath(p), title]),
+          );
+        }
+      }
+
+      if (hidden !== undefined) {
+        if (isStringList(hidden)) sidebar.hidden = hidden;
+        else errors.push("sidebar.hidden: expected a list of paths or patterns");
+      }
+
+      config.sidebar = sidebar;
+    }
+  }
+
+  // flashcards
+  if (raw.flashcards !== undefined) {
+    if (isStringList(raw.flashcards)) config.flashcards = raw.flashcards.map(normalizeConfigPath);
+    else errors.push("flashcards: expected a list of folders");
+  }
+
+  // theme
+  if (raw.theme !== undefined) {
+    if (typeof raw.theme !== "string") {
+      errors.push("theme: expected a theme id");
+    } else if (!known.themes.includes(raw.theme)) {
+      errors.push(`theme: unknown theme "${raw.theme}" (one of ${known.themes.join(", ")})`);
+    } else {
+      config.theme = raw.theme;
+    }
+  }
+
+  // callouts
+  if (raw.callouts !== undefined) {
+    const aliases = stringMap(raw.callouts, "callouts", errors);
+    if (aliases) {
+      config.callouts = {};
+      for (const [alias, target] of Object.entries(aliases)) {
+        const type = target.toLowerCase();
+        if (known.callouts.includes(type)) config.callouts[alias.toLowerCase()] = type;
+        else errors.push(`callouts.${alias}: unknown callout type "${target}"`);
+      }
+    }
+  }
+
+  return { path, config, errors };
+}
+
+// ─── Applying ──────────────────────────────────────────────────
+
+/** Drop tree entries matching `sidebar.hidden` (and everything under them). */
+export function filterHidden(
+  tree: GitTreeEntry[],
+  config: RepoConfig | undefined,
+  rootPath?: string,
+): GitTreeEntry[] {
+  const patterns = config?.sidebar?.hidden;
+  if (!patterns?.length) return tree;
+
+  const matchers = patterns.map(globMatcher);
+  const root = normalizeRootPath(rootPath);
+
+  return tree.filter((entry) => {
+    const relative = root ? entry.path.slice(root.length + 1) : entry.path;
+    const parts = relative.split("/");
+    // Hidden if the path or any of its folders matches
+    return !parts.some((_, i) =>
+      matchers.some((matches) => matches(parts.slice(0, i + 1))),
+    );
+  });
+}
+
+/**
+ * Apply sidebar order, titles and flashcard folders to a sidebar built by
+ * `buildSidebar`. Listed names come first, in order; the rest keep theirs.
+ */
+export function applySidebarConfig(
+  items: NavItem[],
+  config: RepoConfig | undefined,
+  rootPath?: string,
+): NavItem[] {
+  const root = normalizeRootPath(rootPath);
+  const relative = (url: string) => (root ? url.slice(root.length + 1) : url);
+  const flashcardFolders = new Set(config?.flashcards ?? []);
+
+  const apply = (level: NavItem[], folder: string): NavItem[] => {
+    const order = config?.sidebar?.order?.[folder || "/"] ?? [];
+    const rank = (item: NavItem) => {
+      const name = relative(item.url).split("/").pop() ?? "";
+      const index = order.findIndex((entry) => entry === name || entry === stripMd(name));
+      return index === -1 ? order.length : index;
+    };
+
+    return level
+      .map((item, index) => ({ item, index, rank: rank(item) }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index)
+      .map(({ item }) => {
+        const path = relative(item.url);
+        const name = path.split("/").pop() ?? "";
+        const isFolder = !!item.items?.length;
+        return {
+          ...item,
+          title: config?.sidebar?.titles?.[path] ?? item.title,
+          isFlashcards: isFolder
+            ? flashcardFolders.has(path) || name.toLowerCase() === "flashcards"
+            : undefined,
+          items: item.items ? apply(item.items, path) : undefined,
+        };
+      });
+  };
+
+  return apply(items, "");
+}
+
+/* Helpers */
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function stringMap(value: unknown, key: string, errors: string[]): Record<string, string> | null {
+  if (!isRecord(value)) {
+    errors.push(`${key}: expected a map`);
+    return null;
+  }
+  const result: Record<string, string> = {};
+  for (const [name, item] of Object.entries(value)) {
+    if (typeof item === "string") result[name] = item;
+    else errors.push(`${key}.${name}: expected text`);
+  }
+  return result;
+}
+
+// "/Weeks/" and "Weeks" mean the same folder; "/" alone is the root
+function normalizeConfigPath(path: string): string {
+  const trimmed = path.trim().replace(/^\/+|\/+$/g, "");
+  return trimmed || "/";
+}
+
+function stripMd(name: string): string {
+  return name.replace(/\.md$/i, "");
+}
+
+/**
+ * Gitignore-style matcher over path segments: patterns without a slash
+ * match a file or folder name anywhere; with a slash they match from the
+ * notes root. `*` stays within a segment, `**` spans folders.
+ */
+function globMatcher(pattern: string): (parts: string[]) => boolean {
+  const trimmed = pattern.trim().replace(/\/+$/, "");
+  const anchored = trimmed.includes("/");
+  const source = trimmed
+    .replace(/^\/+/, "")
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map((token) => {
+      if (token === "**/") return "(?:.*/)?";
+      if (token === "**") return ".*";
+      if (token === "*") return "[^/]*";
+      if (token === "?") return "[^/]";
+      return token.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  const regex = new RegExp(`^${source}$`, "i");
+
+  return (parts) => regex.test(anchored ? parts.join("/") : parts[parts.length - 1]);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { buildShareUrl, parseSharedRepo, shareTargetForRoute, type SharedRepo } from "./share-links";
+
+const ORIGIN = "https://docurepo.example";
+
+const github: SharedRepo = { provider: "github", host: "github.com", owner: "owner", name: "notes", ref: "main" };
+
+// The repo a share URL addresses, read back the way the /r/ pages do
+function readBack(url: string): SharedRepo {
+  const { pathname, searchParams } = new URL(url);
+  const [, , owner, repo, ref] = pathname.split("/");
+  return parseSharedRepo({ owner, repo, ref }, Object.fromEntries(searchParams));
+}
+
+describe("buildShareUrl", () => {
+  it("links GitHub notes without a query", () => {
+    expect(buildShareUrl(github, { kind: "note", path: "docs/week 3/intro.md" }, ORIGIN)).toBe(
+      `${ORIGIN}/r/owner/notes/main/notes/docs/week%203/intro.md`,
+    );
+  });
+
+  it("links flashcard folders by path", () => {
+    expect(buildShareUrl(github, { kind: "flashcards", folder: "Flashcards/Biology" }, ORIGIN)).toBe(
+      `${ORIGIN}/r/owner/notes/main/flashcards?path=Flashcards%2FBiology`,
+    );
+  });
+
+  it("encodes refs and owners containing slashes as one segment", () => {
+    const repo: SharedRepo = { ...github, ref: "feature/notes" };
+    expect(buildShareUrl(repo, { kind: "note", path: "a.md" }, ORIGIN)).toBe(
+      `${ORIGIN}/r/owner/notes/feature%2Fnotes/notes/a.md`,
+    );
+  });
+
+  it("adds the host, and the provider only when the host doesn't say", () => {
+    const gitlab: SharedRepo = { provider: "gitlab", host: "gitlab.com", owner: "group/sub", name: "notes", ref: "main" };
+    const gitea: SharedRepo = { provider: "gitea", host: "git.example.edu", owner: "owner", name: "notes", ref: "main" };
+
+    expect(buildShareUrl(gitlab, { kind: "note", path: "a.md" }, ORIGIN)).toBe(
+      `${ORIGIN}/r/group%2Fsub/notes/main/notes/a.md?host=gitlab.com`,
+    );
+    expect(buildShareUrl(gitea, { kind: "note", path: "a.md" }, ORIGIN)).toBe(
+      `${ORIGIN}/r/owner/notes/main/notes/a.md?host=git.example.edu&provider=gitea`,
+    );
+  });
+
+  it("has no link for local sources", () => {
+    const local: SharedRepo = { provider: "local", host: "local", owner: "folder", name: "notes", ref: "local" };
+    expect(buildShareUrl(local, { kind: "note", path: "a.md" }, ORIGIN)).toBeNull();
+  });
+});
+
+describe("parseSharedRepo", () => {
+  it("reads back the repo a link was built for", () => {
+    const repos: SharedRepo[] = [
+      github,
+      { ...github, ref: "feature/notes", rootPath: "courses/STU 1201" },
+      { provider: "gitlab", host: "gitlab.example.edu", owner: "group/sub", name: "notes", ref: "dev" },
+      { provider: "gitea", host: "git.example.edu", owner: "owner", name: "notes", ref: "v1.0" },
+    ];
+
+    for (const repo of repos) {
+      const url = buildShareUrl(repo, { kind: "note", path: "docs/intro.md" }, ORIGIN);
+      expect(readBack(url!)).toEqual({ rootPath: undefined, ...repo });
+    }
+  });
+
+  it("rejects hosts whose provider can't be told", () => {
+    expect(() => parseSharedRepo({ owner: "o", repo: "r", ref: "main" }, { host: "git.example.edu" })).toThrow();
+    expect(() =>
+      parseSharedRepo({ owner: "o", repo: "r", ref: "main" }, { host: "local", provider: "local" }),
+    ).toThrow();
+  });
+});
+
+describe("shareTargetForRoute", () => {
+  it("recognises notes and flashcard folders", () => {
+    expect(shareTargetForRoute("/notes/docs/week%203/intro.md", new URLSearchParams())).toEqual({
+      kind: "note",
+      path: "docs/week 3/intro.md",
+    });
+    expect(shareTargetForRoute("/flashcards", new URLSearchParams("path=Flashcards/Biology"))).toEqual({
+      kind: "flashcards",
+      folder: "Flashcards/Biology",
+    });
+  });
+
+  it("has nothing to share elsewhere", () => {
+    expect(shareTargetForRoute("/flashcards", new URLSearchParams())).toBeNull();
+    expect(shareTargetForRoute("/tags", new URLSearchParams())).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Shareable links
+ *
+ * `/notes/...` and `/flashcards` read the repo from localStorage, so they
+ * only work in the browser that added it. Share links carry the repo in the
+ * URL instead:
+ *
+ *   /r/{owner}/{repo}/{ref}/notes/{path}
+ *   /r/{owner}/{repo}/{ref}/flashcards?path={folder}
+ *
+ * Non-GitHub repos add `?host=` (and `provider=` when the hostname doesn't
+ * say), and a mounted subfolder adds `?root=`.
+ */
+
+import { encodeRepoPath, safeDecode } from "./utils";
+import {
+  GITHUB_HOST,
+  detectProvider,
+  type RepoLocation,
+  type SourceProvider,
+} from "./sources";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+/** A repo as addressed by a share link. */
+export interface SharedRepo extends RepoLocation {
+  ref: string;
+  rootPath?: string;
+}
+
+export type ShareTarget =
+  | { kind: "note"; path: string }
+  | { kind: "flashcards"; folder: string };
+
+// ─── Building ──────────────────────────────────────────────────
+
+/**
+ * Absolute share URL for a note or flashcard folder, or null for local
+ * sources (their files only exist on one computer).
+ */
+export function buildShareUrl(repo: SharedRepo, target: ShareTarget, origin: string): string | null {
+  if (repo.provider === "local") return null;
+
+  const base = [repo.owner, repo.name, repo.ref].map((part) => encodeURIComponent(part)).join("/");
+  const query = new URLSearchParams();
+
+  let path: string;
+  if (target.kind === "note") {
+    path = `/r/${base}/notes/${encodeRepoPath(target.path)}`;
+  } else {
+    path = `/r/${base}/flashcards`;
+    query.set("path", target.folder);
+  }
+
+  if (repo.host !== GITHUB_HOST) {
+    query.set("host", repo.host);
+    if (detectProvider(repo.host) !== repo.provider) query.set("provider", repo.provider);
+  }
+  if (repo.rootPath) query.set("root", repo.rootPath);
+
+  const search = query.toString();
+  return `${origin}${path}${search ? `?${search}` : ""}`;
+}
+
+/** Share target for an in-app location, if it is a note or flashcard folder. */
+export function shareTargetForRoute(pathname: string, search: URLSearchParams): ShareTarget | null {
+  if (pathname.startsWith("/notes/")) {
+    return { kind: "note", path: safeDecode(pathname.slice("/notes/".length)) };
+  }
+  const folder = search.get("path");
+  if (pathname === "/flashcards" && folder) {
+    return { kind: "flashcards", folder };
+  }
+  return null;
+}
+
+// ─── Parsing ───────────────────────────────────────────────────
+
+/**
+ * Repo addressed by a share link's route params and query. Throws for
+ * hosts whose provider can't be determined.
+ */
+export function parseSharedRepo(
+  params: { owner: string; repo: string; ref: string },
+  search: { host?: string; provider?: string; root?: string },
+): SharedRepo {
+  const host = (search.host || GITHUB_HOST).toLowerCase();
+  const provider =
+    (search.provider as SourceProvider | undefined) ??
+    (host === GITHUB_HOST ? "github" : detectProvider(host));
+
+  if (!provider || provider === "local") {
+    throw new Error(`Can't tell which service ${host} runs; the link is missing its provider.`);
+  }
+
+  return {
+    provider,
+    host,
+    owner: safeDecode(params.owner),
+    name: safeDecode(params.repo),
+    ref: safeDecode(params.ref),
+    rootPath: search.root || undefined,
+  };
+}
+
+/** Web URL of a repo, as stored on `Repo.url`. */
+export function repoWebUrl(repo: RepoLocation): string {
+  return `https://${repo.host}/${repo.owner}/${repo.name}`;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { frontmatterOrder, naturalCompare, sortSidebar } from "./sidebar-sort";
+import type { NavItem } from "./utils";
+
+const note = (title: string, url = `${title}.md`): NavItem => ({ title, url });
+const folder = (title: string, items: NavItem[]): NavItem => ({ title, url: title, items });
+
+const titles = (items: NavItem[]) => items.map((item) => item.title);
+
+describe("naturalCompare", () => {
+  it("orders numbers by value and ignores case", () => {
+    expect(["Week 10", "week 2", "Week 1"].sort(naturalCompare)).toEqual(["Week 1", "week 2", "Week 10"]);
+  });
+
+  it("still tells apart names that differ only in case", () => {
+    expect(naturalCompare("notes", "Notes")).not.toBe(0);
+  });
+});
+
+describe("sortSidebar", () => {
+  const items = [note("Week 10"), folder("labs", [note("Lab 2"), note("Lab 1")]), note("week 2")];
+
+  it("sorts naturally by name, at every level", () => {
+    const sorted = sortSidebar(items);
+    expect(titles(sorted)).toEqual(["labs", "week 2", "Week 10"]);
+    expect(titles(sorted[0].items!)).toEqual(["Lab 1", "Lab 2"]);
+  });
+
+  it("puts folders first when asked", () => {
+    const sorted = sortSidebar([note("a"), folder("z", [note("b")])], { mode: "name", foldersFirst: true });
+    expect(titles(sorted)).toEqual(["z", "a"]);
+  });
+
+  it("keeps the repository's order in source mode", () => {
+    expect(titles(sortSidebar(items, { mode: "source", foldersFirst: false }))).toEqual([
+      "Week 10",
+      "labs",
+      "week 2",
+    ]);
+  });
+
+  it("orders by frontmatter weight, then by name for notes without one", () => {
+    const weights = { "Week 10.md": 1, labs: 2 };
+    const sorted = sortSidebar(items, { mode: "frontmatter", foldersFirst: false }, weights);
+    expect(titles(sorted)).toEqual(["Week 10", "labs", "week 2"]);
+  });
+
+  it("doesn't change the items it's given", () => {
+    const copy = structuredClone(items);
+    sortSidebar(items);
+    expect(items).toEqual(copy);
+  });
+});
+
+describe("frontmatterOrder", () => {
+  it("reads order, then weight", () => {
+    expect(frontmatterOrder({ order: 3 })).toBe(3);
+    expect(frontmatterOrder({ weight: -1.5 })).toBe(-1.5);
+    expect(frontmatterOrder({ order: 1, weight: 2 })).toBe(1);
+  });
+
+  it("accepts numeric strings", () => {
+    expect(frontmatterOrder({ order: " 4 " })).toBe(4);
+  });
+
+  it("ignores values that aren't numbers", () => {
+    expect(frontmatterOrder({})).toBeUndefined();
+    expect(frontmatterOrder({ order: "first" })).toBeUndefined();
+    expect(frontmatterOrder({ order: "" })).toBeUndefined();
+    expect(frontmatterOrder({ order: null, weight: 2 })).toBe(2);
+  });
+});
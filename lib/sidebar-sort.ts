@@ -0,0 +1,128 @@
+/**
+ * Sidebar sorting
+ *
+ * Git trees list entries in byte order, which puts "Week 10" before
+ * "Week 2" and capitals before lowercase. The sidebar is instead sorted by
+ * one of these modes, chosen per repo:
+ *
+ * - `name`: natural order ("Week 2" before "Week 10"), case-insensitive
+ * - `frontmatter`: by a note's `order` (or `weight`) frontmatter field,
+ *   then by name. A folder takes the value of its index.md or README.md.
+ * - `source`: the repository's own order
+ *
+ * `.docurepo.yml` sidebar order still applies on top of any mode.
+ */
+
+import { scanRepoNotes } from "./note-metadata";
+import type { GitTreeEntry, NavItem } from "./utils";
+import { isLiveLocalSource, type RepoLocation } from "./sources";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type SidebarSortMode = "name" | "frontmatter" | "source";
+
+export interface SidebarSort {
+  mode: SidebarSortMode;
+  /** List folders before notes at every level */
+  foldersFirst: boolean;
+}
+
+/** Frontmatter order values keyed by repository path (notes and folders). */
+export type NoteWeights = Record<string, number>;
+
+// ─── Constants ─────────────────────────────────────────────────
+
+export const DEFAULT_SIDEBAR_SORT: SidebarSort = { mode: "name", foldersFirst: false };
+
+export const SIDEBAR_SORT_MODES: { id: SidebarSortMode; label: string }[] = [
+  { id: "name", label: "Name" },
+  { id: "frontmatter", label: "Frontmatter order" },
+  { id: "source", label: "Repository order" },
+];
+
+// Notes whose order also orders their folder
+const FOLDER_NOTES = ["index.md", "readme.md", "_index.md"];
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+// ─── Sorting ───────────────────────────────────────────────────
+
+/** Natural, case-insensitive comparison: "Week 2" < "Week 10". */
+export function naturalCompare(a: string, b: string): number {
+  return collator.compare(a, b) || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+/** Sort a sidebar built by `buildSidebar`, recursively. */
+export function sortSidebar(
+  items: NavItem[],
+  sort: SidebarSort = DEFAULT_SIDEBAR_SORT,
+  weights: NoteWeights = {},
+): NavItem[] {
+  const isFolder = (item: NavItem) => !!item.items?.length;
+
+  const compare = (a: NavItem, b: NavItem): number => {
+    if (sort.foldersFirst && isFolder(a) !== isFolder(b)) return isFolder(a) ? -1 : 1;
+    if (sort.mode === "source") return 0;
+    if (sort.mode === "frontmatter") {
+      const wa = weights[a.url];
+      const wb = weights[b.url];
+      // Notes with an order come first
+      if (wa !== undefined || wb !== undefined) {
+        if (wa === undefined) return 1;
+        if (wb === undefined) return -1;
+        if (wa !== wb) return wa - wb;
+      }
+    }
+    return naturalCompare(a.title, b.title);
+  };
+
+  // Array.prototype.sort is stable, so "source" keeps repository order
+  return [...items]
+    .sort(compare)
+    .map((item) => (item.items ? { ...item, items: sortSidebar(item.items, sort, weights) } : item));
+}
+
+// ─── Frontmatter order ─────────────────────────────────────────
+
+/** A note's `order` (or `weight`) frontmatter value, if it is a number. */
+export function frontmatterOrder(data: Record<string, unknown>): number | undefined {
+  for (const key of ["order", "weight"]) {
+    const value = data[key];
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    if (typeof value === "string" && value.trim() && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the frontmatter order of the notes under `rootPath` that are in the
+ * content cache (opened, searched or kept offline); ordering the sidebar
+ * never downloads notes. Local folders are read in full, from disk. The
+ * rest of each note's frontmatter is indexed on the way.
+ */
+export async function loadNoteWeights(
+  repo: RepoLocation,
+  tree: GitTreeEntry[],
+  options: { ref: string; rootPath?: string },
+): Promise<NoteWeights> {
+  const weights: NoteWeights = {};
+
+  await scanRepoNotes(repo, tree, { ...options, cachedOnly: !isLiveLocalSource(repo) }, {
+    onNote: (path, note) => {
+      const order = frontmatterOrder(note.data);
+      if (order === undefined) return;
+      weights[path] = order;
+
+      const slash = path.lastIndexOf("/");
+      const name = path.slice(slash + 1).toLowerCase();
+      const folder = path.slice(0, Math.max(slash, 0));
+      if (folder && FOLDER_NOTES.includes(name) && weights[folder] === undefined) {
+        weights[folder] = order;
+      }
+    },
+  });
+
+  return weights;
+}
@@ -0,0 +1,157 @@
+import { SourceApiError, encodeRepoPath, type GitTreeEntry } from "../utils";
+import { getToken } from "../github-tokens";
+import { readJson, sourceFetch } from "./http";
+import type { ContentSource } from "./types";
+
+/**
+ * Gitea (and Forgejo, e.g. Codeberg) via the v1 REST API.
+ *
+ * The git trees endpoint mirrors GitHub's, except that large recursive
+ * listings are paginated instead of truncated.
+ */
+
+type GiteaTreeResponse = {
+  sha: string;
+  tree: GitTreeEntry[];
+  truncated: boolean;
+  total_count?: number;
+};
+
+const TREE_PAGE_SIZE = 1000;
+const REFS_PAGE_SIZE = 50;
+
+export function createGiteaSource(host: string): ContentSource {
+  const api = `https://${host}/api/v1`;
+
+  const repoUrl = (owner: string, repo: string) =>
+    `${api}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+  const headers = (token?: string): Record<string, string> =>
+    token ? { Authorization: `token ${token}` } : {};
+
+  const resolveToken = (owner: string, repo: string, token?: string) =>
+    token ?? getToken(owner, repo, host);
+
+  const refParam = (ref?: string) => (ref ? `?ref=${encodeURIComponent(ref)}` : "");
+
+  return {
+    provider: "gitea",
+    host,
+
+    async getDefaultBranch(owner, repo, options) {
+      const res = await sourceFetch(
+        repoUrl(owner, repo),
+        headers(resolveToken(owner, repo, options?.token)),
+        "Repository fetch",
+        host,
+      );
+      const data = await readJson<{ default_branch: string }>(
+        res,
+        host,
+        (d) => typeof (d as { default_branch?: unknown })?.default_branch === "string",
+      );
+      return data.default_branch;
+    },
+
+    async listRefs(owner, repo, options) {
+      const h = headers(resolveToken(owner, repo, options?.token));
+
+      const fetchNames = async (kind: "branches" | "tags") => {
+        const res = await sourceFetch(
+          `${repoUrl(owner, repo)}/${kind}?limit=${REFS_PAGE_SIZE}`,
+          h,
+          "Ref fetch",
+          host,
+        );
+        const data = await readJson<{ name?: unknown }[]>(res, host, Array.isArray);
+        return data
+          .map((entry) => entry.name)
+          .filter((name): name is string => typeof name === "string");
+      };
+
+      const [branches, tags] = await Promise.all([fetchNames("branches"), fetchNames("tags")]);
+      return { branches, tags };
+    },
+
+    async listTree(owner, repo, options) {
+      const ref = options?.ref ?? "HEAD";
+      const h = headers(resolveToken(owner, repo, options?.token));
+      const entries: GitTreeEntry[] = [];
+
+      // `truncated` here means "more pages follow"
+      for (let page = 1; ; page++) {
+        const res = await sourceFetch(
+          `${repoUrl(owner, repo)}/git/trees/${encodeURIComponent(ref)}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`,
+          h,
+          "Tree fetch",
+          host,
+        );
+        const data = await readJson<GiteaTreeResponse>(res, host, (d) =>
+          Array.isArray((d as { tree?: unknown })?.tree),
+        );
+        entries.push(...data.tree);
+
+        const total = data.total_count
+          ? Math.ceil(data.total_count / TREE_PAGE_SIZE)
+          : page;
+        options?.onProgress?.({ done: page, total: Math.max(total, page) });
+
+        if (!data.truncated || data.tree.length === 0) break;
+      }
+
+      return entries;
+    },
+
+    async readFile(owner, repo, path, options) {
+      if (!path) throw new Error("Path must be provided");
+      const res = await sourceFetch(
+        `${repoUrl(owner, repo)}/raw/${encodeRepoPath(path)}${refParam(options?.ref)}`,
+        headers(resolveToken(owner, repo, options?.token)),
+        "File fetch",
+        host,
+      );
+      return res.text();
+    },
+
+    async readBlob(owner, repo, path, options) {
+      // The media endpoint resolves Git LFS pointers to the real file
+      const res = await sourceFetch(
+        `${repoUrl(owner, repo)}/media/${encodeRepoPath(path)}${refParam(options?.ref)}`,
+        headers(resolveToken(owner, repo, options?.token)),
+        "File fetch",
+        host,
+      );
+      return res.blob();
+    },
+
+    rawUrl(owner, repo, ref, path) {
+      return `${repoUrl(owner, repo)}/media/${encodeRepoPath(path)}${refParam(ref)}`;
+    },
+
+    async validateToken(token, repo) {
+      const h = headers(token);
+      const res = await sourceFetch(`${api}/user`, h, "Token check", host);
+      const user = await readJson<{ login: string }>(
+        res,
+        host,
+        (d) => typeof (d as { login?: unknown })?.login === "string",
+      );
+
+      if (repo) {
+        try {
+          await sourceFetch(repoUrl(repo.owner, repo.name), h, "Repository fetch", host);
+        } catch (e) {
+          // Status 0: the server couldn't be reached, which says nothing about the token
+          if (!(e instanceof SourceApiError) || e.status === 0) throw e;
+          throw new SourceApiError(
+            `Token for ${user.login} cannot access ${repo.owner}/${repo.name} (${e.status}).`,
+            e.status,
+          );
+        }
+      }
+
+      // Gitea doesn't report token scopes on /user
+      return { login: user.login, scopes: [] };
+    },
+  };
+}
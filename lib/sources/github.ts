@@ -0,0 +1,28 @@
+import {
+  buildRawUrl,
+  fetchDefaultBranch,
+  fetchMarkdown,
+  fetchRawBlob,
+  fetchRepoRefs,
+  fetchRepoTree,
+  fetchRepoTreeIfChanged,
+  validateToken,
+} from "../utils";
+import { GITHUB_HOST, type ContentSource } from "./types";
+
+/**
+ * github.com, backed by the REST helpers in `lib/utils.ts` (which also do
+ * the rate-limit tracking).
+ */
+export const githubSource: ContentSource = {
+  provider: "github",
+  host: GITHUB_HOST,
+  getDefaultBranch: fetchDefaultBranch,
+  listRefs: fetchRepoRefs,
+  listTree: fetchRepoTree,
+  listTreeIfChanged: fetchRepoTreeIfChanged,
+  readFile: fetchMarkdown,
+  readBlob: fetchRawBlob,
+  rawUrl: buildRawUrl,
+  validateToken,
+};
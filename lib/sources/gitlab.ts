@@ -0,0 +1,164 @@
+import { SourceApiError, encodeRepoPath, type GitTreeEntry } from "../utils";
+import { getToken } from "../github-tokens";
+import { readJson, sourceFetch } from "./http";
+import type { ContentSource } from "./types";
+
+/**
+ * GitLab (gitlab.com or self-hosted) via the v4 REST API.
+ *
+ * Projects are addressed by their URL-encoded full path, so nested groups
+ * ("group/subgroup/project") work. Tree entry ids are git object shas, so
+ * the sha-keyed content cache works unchanged.
+ */
+
+type GitLabTreeItem = {
+  id: string;
+  path: string;
+  type: "blob" | "tree" | "commit";
+  mode: string;
+};
+
+const PER_PAGE = 100;
+
+export function createGitLabSource(host: string): ContentSource {
+  const api = `https://${host}/api/v4`;
+
+  const projectUrl = (owner: string, repo: string) =>
+    `${api}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+  const headers = (token?: string): Record<string, string> =>
+    token ? { "PRIVATE-TOKEN": token } : {};
+
+  const resolveToken = (owner: string, repo: string, token?: string) =>
+    token ?? getToken(owner, repo, host);
+
+  // The files API wants the whole path as one encoded segment
+  const encodeFilePath = (path: string) => encodeRepoPath(path).replace(/\//g, "%2F");
+
+  const readRaw = (owner: string, repo: string, path: string, options?: { ref?: string; token?: string }) => {
+    if (!path) throw new Error("Path must be provided");
+    const params = `?ref=${encodeURIComponent(options?.ref ?? "HEAD")}`;
+    return sourceFetch(
+      `${projectUrl(owner, repo)}/repository/files/${encodeFilePath(path)}/raw${params}`,
+      headers(resolveToken(owner, repo, options?.token)),
+      "File fetch",
+      host,
+    );
+  };
+
+  return {
+    provider: "gitlab",
+    host,
+
+    async getDefaultBranch(owner, repo, options) {
+      const res = await sourceFetch(
+        projectUrl(owner, repo),
+        headers(resolveToken(owner, repo, options?.token)),
+        "Repository fetch",
+        host,
+      );
+      const data = await readJson<{ default_branch: string }>(
+        res,
+        host,
+        (d) => typeof (d as { default_branch?: unknown })?.default_branch === "string",
+      );
+      return data.default_branch;
+    },
+
+    async listRefs(owner, repo, options) {
+      const h = headers(resolveToken(owner, repo, options?.token));
+
+      const fetchNames = async (kind: "branches" | "tags") => {
+        const res = await sourceFetch(
+          `${projectUrl(owner, repo)}/repository/${kind}?per_page=${PER_PAGE}`,
+          h,
+          "Ref fetch",
+          host,
+        );
+        const data = await readJson<{ name?: unknown }[]>(res, host, Array.isArray);
+        return data
+          .map((entry) => entry.name)
+          .filter((name): name is string => typeof name === "string");
+      };
+
+      const [branches, tags] = await Promise.all([fetchNames("branches"), fetchNames("tags")]);
+      return { branches, tags };
+    },
+
+    async listTree(owner, repo, options) {
+      const ref = options?.ref ?? "HEAD";
+      const h = headers(resolveToken(owner, repo, options?.token));
+      const entries: GitTreeEntry[] = [];
+
+      // The tree endpoint is paginated; follow X-Next-Page until it's empty
+      let page = 1;
+      while (page) {
+        const res = await sourceFetch(
+          `${projectUrl(owner, repo)}/repository/tree?recursive=true&per_page=${PER_PAGE}&page=${page}&ref=${encodeURIComponent(ref)}`,
+          h,
+          "Tree fetch",
+          host,
+        );
+        const items = await readJson<GitLabTreeItem[]>(res, host, Array.isArray);
+        for (const item of items) {
+          entries.push({ path: item.path, mode: item.mode, type: item.type, sha: item.id });
+        }
+
+        const totalPages = Number(res.headers.get("X-Total-Pages")) || page;
+        options?.onProgress?.({ done: page, total: Math.max(totalPages, page) });
+
+        const next = Number(res.headers.get("X-Next-Page"));
+        page = Number.isFinite(next) && next > page ? next : 0;
+      }
+
+      return entries;
+    },
+
+    async readFile(owner, repo, path, options) {
+      const res = await readRaw(owner, repo, path, options);
+      return res.text();
+    },
+
+    async readBlob(owner, repo, path, options) {
+      const res = await readRaw(owner, repo, path, options);
+      return res.blob();
+    },
+
+    rawUrl(owner, repo, ref, path) {
+      return `https://${host}/${owner}/${repo}/-/raw/${encodeURIComponent(ref)}/${encodeRepoPath(path)}`;
+    },
+
+    async validateToken(token, repo) {
+      const h = headers(token);
+      const res = await sourceFetch(`${api}/user`, h, "Token check", host);
+      const user = await readJson<{ username: string }>(
+        res,
+        host,
+        (d) => typeof (d as { username?: unknown })?.username === "string",
+      );
+
+      // Scopes are only visible to the token itself; older servers lack this
+      let scopes: string[] = [];
+      const self = await fetch(`${api}/personal_access_tokens/self`, { headers: h });
+      if (self.ok) {
+        const data = await self.json().catch(() => null);
+        if (Array.isArray(data?.scopes)) scopes = data.scopes;
+      }
+
+      if (repo) {
+        try {
+          await sourceFetch(projectUrl(repo.owner, repo.name), h, "Repository fetch", host);
+        } catch (e) {
+          // Status 0: the server couldn't be reached, which says nothing about the token
+          if (!(e instanceof SourceApiError) || e.status === 0) throw e;
+          throw new SourceApiError(
+            `Token for ${user.username} cannot access ${repo.owner}/${repo.name} (${e.status}).`,
+            e.status,
+          );
+        }
+      }
+
+      return { login: user.username, scopes };
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { SourceApiError } from "../utils";
+
+/**
+ * Shared request helpers for the GitLab and Gitea sources. GitHub has its
+ * own in `lib/utils.ts` because it also tracks rate limits.
+ */
+
+/** GET a URL, throwing a SourceApiError with a readable message on failure. */
+export async function sourceFetch(
+  url: string,
+  headers: Record<string, string>,
+  label: string,
+  host: string,
+): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(url, { headers });
+  } catch {
+    // Self-hosted instances often don't allow cross-origin requests
+    throw new SourceApiError(
+      `Could not reach ${host}. Check the URL and that the server allows cross-origin (CORS) requests.`,
+      0,
+    );
+  }
+
+  if (res.ok) return res;
+
+  const authenticated = Object.keys(headers).some((name) =>
+    /^(authorization|private-token)$/i.test(name),
+  );
+
+  if (res.status === 404) {
+    throw new SourceApiError(
+      authenticated
+        ? "Not found (404). Check the URL and branch, and that your token has access to this repository."
+        : `Not found (404). If this repository is private, add a ${host} token with access to it in Settings.`,
+      404,
+    );
+  }
+
+  if (res.status === 401) {
+    throw new SourceApiError(
+      `${host} rejected the access token (401). Update or remove it in Settings.`,
+      401,
+    );
+  }
+
+  const text = await res.text().catch(() => "");
+  throw new SourceApiError(
+    `${label} failed (${res.status} ${res.statusText}): ${text || "no body"}`,
+    res.status,
+  );
+}
+
+/** Parse a JSON body, rejecting anything that isn't the expected shape. */
+export async function readJson<T>(
+  res: Response,
+  host: string,
+  isValid: (data: unknown) => boolean,
+): Promise<T> {
+  const data: unknown = await res.json().catch(() => null);
+  if (!isValid(data)) {
+    throw new Error(`Unexpected response format from ${host}`);
+  }
+  return data as T;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { UnknownHostError, detectProvider, parseRepoUrl } from "./index";
+
+describe("detectProvider", () => {
+  it("knows the public hosts", () => {
+    expect(detectProvider("github.com")).toBe("github");
+    expect(detectProvider("GitLab.com")).toBe("gitlab");
+    expect(detectProvider("codeberg.org")).toBe("gitea");
+  });
+
+  it("recognises self-hosted instances by their hostname", () => {
+    expect(detectProvider("gitlab.example.edu")).toBe("gitlab");
+    expect(detectProvider("git-gitlab.example.edu")).toBe("gitlab");
+    expect(detectProvider("forgejo.example.org")).toBe("gitea");
+  });
+
+  it("doesn't guess from partial words", () => {
+    expect(detectProvider("mygitlabmirror.example.com")).toBeNull();
+    expect(detectProvider("git.example.edu")).toBeNull();
+  });
+});
+
+describe("parseRepoUrl", () => {
+  it("parses GitHub URLs in their usual forms", () => {
+    const expected = { provider: "github", host: "github.com", owner: "owner", name: "repo" };
+    expect(parseRepoUrl("https://github.com/owner/repo")).toEqual(expected);
+    expect(parseRepoUrl("https://www.github.com/owner/repo.git")).toEqual(expected);
+    expect(parseRepoUrl("git@github.com:owner/repo.git")).toEqual(expected);
+    expect(parseRepoUrl("github.com/owner/repo")).toEqual(expected);
+  });
+
+  it("reads the ref and path of GitHub tree and blob links", () => {
+    expect(parseRepoUrl("https://github.com/owner/repo/tree/dev/docs/week%203")).toMatchObject({
+      ref: "dev",
+      path: "docs/week 3",
+      isFile: false,
+    });
+    expect(parseRepoUrl("https://github.com/owner/repo/blob/main/docs/intro.md")).toMatchObject({
+      ref: "main",
+      path: "docs/intro.md",
+      isFile: true,
+    });
+    expect(parseRepoUrl("https://github.com/owner/repo/tree/dev")).toMatchObject({ ref: "dev", path: undefined });
+  });
+
+  it("ignores links to other pages of a repo", () => {
+    const link = parseRepoUrl("https://github.com/owner/repo/issues/12");
+    expect(link.ref).toBeUndefined();
+    expect(link.path).toBeUndefined();
+  });
+
+  it("keeps GitLab groups in the owner", () => {
+    expect(parseRepoUrl("https://gitlab.com/group/subgroup/repo.git")).toEqual({
+      provider: "gitlab",
+      host: "gitlab.com",
+      owner: "group/subgroup",
+      name: "repo",
+    });
+    expect(parseRepoUrl("https://gitlab.com/group/sub/repo/-/blob/main/docs/intro.md")).toMatchObject({
+      owner: "group/sub",
+      name: "repo",
+      ref: "main",
+      path: "docs/intro.md",
+      isFile: true,
+    });
+  });
+
+  it("leaves Gitea links' file or folder to the tree", () => {
+    const folder = parseRepoUrl("https://codeberg.org/owner/repo/src/branch/main/docs");
+    const file = parseRepoUrl("https://codeberg.org/owner/repo/src/commit/abc123/docs/intro.md");
+    expect(folder).toMatchObject({ provider: "gitea", ref: "main", path: "docs" });
+    expect(file).toMatchObject({ ref: "abc123", path: "docs/intro.md" });
+    expect(folder.isFile).toBeUndefined();
+    expect(file.isFile).toBeUndefined();
+  });
+
+  it("uses the given provider for unrecognised hosts", () => {
+    expect(() => parseRepoUrl("https://git.example.edu/owner/repo")).toThrow(UnknownHostError);
+    expect(parseRepoUrl("git.example.edu:8443/owner/repo", "gitea")).toEqual({
+      provider: "gitea",
+      host: "git.example.edu:8443",
+      owner: "owner",
+      name: "repo",
+    });
+  });
+
+  it("rejects URLs without an owner and name", () => {
+    expect(() => parseRepoUrl("https://github.com/owner")).toThrow("Invalid repository url");
+    expect(() => parseRepoUrl("")).toThrow("Invalid repository url");
+    expect(() => parseRepoUrl("https://github.example.com/owner/repo", "github")).toThrow();
+  });
+});
@@ -0,0 +1,237 @@
+// Content source exports
+import { githubSource } from "./github";
+import { createGitLabSource } from "./gitlab";
+import { createGiteaSource } from "./gitea";
+import { localSource } from "./local";
+import { safeDecode } from "../utils";
+import {
+  GITHUB_HOST,
+  LOCAL_HOST,
+  type ContentSource,
+  type RepoLocation,
+  type SourceProvider,
+} from "./types";
+
+export { GITHUB_HOST, LOCAL_HOST, repoId, repoLabel } from "./types";
+export type { ContentSource, RepoLocation, SourceProvider } from "./types";
+export {
+  LOCAL_REF,
+  forgetLocalSource,
+  isFolderPickerSupported,
+  isLiveLocalSource,
+  openLocalFolder,
+  openLocalZip,
+  type LocalSourceKind,
+} from "./local";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+export const PROVIDER_LABELS: Record<SourceProvider, string> = {
+  github: "GitHub",
+  gitlab: "GitLab",
+  gitea: "Gitea",
+  local: "Local",
+};
+
+// Hosts whose provider is known without a hint
+const KNOWN_HOSTS: Record<string, SourceProvider> = {
+  "github.com": "github",
+  "gitlab.com": "gitlab",
+  "gitea.com": "gitea",
+  "codeberg.org": "gitea",
+};
+
+// ─── Lookup ────────────────────────────────────────────────────
+
+const sources = new Map<string, ContentSource>([
+  [`github:${GITHUB_HOST}`, githubSource],
+  [`local:${LOCAL_HOST}`, localSource],
+]);
+
+/**
+ * The content source for a repo's provider and host. Sources are cached,
+ * so this is cheap to call per request.
+ */
+export function getContentSource(
+  location: Pick<RepoLocation, "provider" | "host">,
+): ContentSource {
+  const key = `${location.provider}:${location.host}`;
+  const existing = sources.get(key);
+  if (existing) return existing;
+
+  let source: ContentSource;
+  switch (location.provider) {
+    case "gitlab":
+      source = createGitLabSource(location.host);
+      break;
+    case "gitea":
+      source = createGiteaSource(location.host);
+      break;
+    case "github":
+      throw new Error(`Only ${GITHUB_HOST} is supported for GitHub repositories`);
+    case "local":
+      throw new Error(`Unknown local source host "${location.host}"`);
+  }
+
+  sources.set(key, source);
+  return source;
+}
+
+/**
+ * The active repo's location from the legacy per-field localStorage keys,
+ * for components that read the active repo outside of RepoProvider.
+ */
+export function getStoredRepoLocation(): RepoLocation | null {
+  if (typeof window === "undefined") return null;
+  const owner = localStorage.getItem("docurepo:repo_owner");
+  const name = localStorage.getItem("docurepo:repo_name");
+  if (!owner || !name) return null;
+
+  return {
+    provider: (localStorage.getItem("docurepo:repo_provider") as SourceProvider | null) ?? "github",
+    host: localStorage.getItem("docurepo:repo_host") ?? GITHUB_HOST,
+    owner,
+    name,
+  };
+}
+
+// ─── URL parsing ───────────────────────────────────────────────
+
+/** The URL's host isn't a known provider; ask which software it runs. */
+export class UnknownHostError extends Error {
+  host: string;
+
+  constructor(host: string) {
+    super(`Unrecognized host "${host}". Choose whether it runs GitLab or Gitea.`);
+    this.name = "UnknownHostError";
+    this.host = host;
+  }
+}
+
+/**
+ * Guess the provider from a hostname. Self-hosted instances are recognised
+ * when their hostname mentions the software (e.g. "gitlab.example.edu").
+ */
+export function detectProvider(host: string): SourceProvider | null {
+  const lower = host.toLowerCase();
+  if (KNOWN_HOSTS[lower]) return KNOWN_HOSTS[lower];
+  if (/(^|[.-])gitlab([.-]|$)/.test(lower)) return "gitlab";
+  if (/(^|[.-])(gitea|forgejo)([.-]|$)/.test(lower)) return "gitea";
+  return null;
+}
+
+/**
+ * Where inside a repository a pasted URL points: the ref from a tree/blob
+ * link and the folder or file below it.
+ */
+export interface RepoUrlTarget {
+  ref?: string;
+  /** Repository path (decoded), e.g. "docs/week3" or "docs/intro.md" */
+  path?: string;
+  /**
+   * True for file (blob) links, false for folder (tree) links, unset when
+   * the link doesn't say (Gitea's src links)
+   */
+  isFile?: boolean;
+}
+
+/** A parsed repository URL: the repo, plus the ref and path of deep links. */
+export type ParsedRepoUrl = RepoLocation & RepoUrlTarget;
+
+/**
+ * Parse a repository URL on any supported host.
+ *
+ * Accepts forms like:
+ * - https://github.com/owner/repo
+ * - https://gitlab.com/group/subgroup/repo(.git)
+ * - git@codeberg.org:owner/repo.git
+ * - git.example.edu/owner/repo (with `provider` given)
+ *
+ * Links to a folder or file also yield its ref and path:
+ * - https://github.com/owner/repo/tree/dev/docs/week3
+ * - https://gitlab.com/group/repo/-/blob/main/docs/intro.md
+ * - https://codeberg.org/owner/repo/src/branch/main/docs
+ *
+ * `provider` overrides detection, for self-hosted instances whose hostname
+ * doesn't reveal what they run.
+ */
+export function parseRepoUrl(url: string, provider?: SourceProvider): ParsedRepoUrl {
+  if (!url || typeof url !== "string") {
+    throw new Error("Invalid repository url");
+  }
+
+  // Normalize git@host:path to https://host/path
+  const trimmed = url.trim();
+  const normalized = trimmed.startsWith("git@")
+    ? trimmed.replace(/^git@([^:]+):/, "https://$1/")
+    : trimmed;
+  const withProtocol = /^[a-z]+:\/\//i.test(normalized) ? normalized : `https://${normalized}`;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(withProtocol);
+  } catch {
+    throw new Error("Invalid repository url");
+  }
+
+  const host = parsed.host.toLowerCase().replace(/^www\.github\.com$/, GITHUB_HOST);
+  const resolvedProvider = provider ?? detectProvider(host);
+  if (!resolvedProvider) {
+    throw new UnknownHostError(host);
+  }
+  if (resolvedProvider === "github" && host !== GITHUB_HOST) {
+    throw new Error(`Only ${GITHUB_HOST} is supported for GitHub repositories`);
+  }
+  if (resolvedProvider === "local") {
+    throw new Error("Local folders and archives are opened, not parsed from a URL");
+  }
+
+  let segments = parsed.pathname.split("/").filter(Boolean).map(safeDecode);
+  let rest: string[] = [];
+
+  // GitLab puts UI routes after "/-/"; nested groups come before it
+  if (resolvedProvider === "gitlab") {
+    const dash = segments.indexOf("-");
+    if (dash !== -1) {
+      rest = segments.slice(dash + 1);
+      segments = segments.slice(0, dash);
+    }
+  } else {
+    rest = segments.slice(2);
+    segments = segments.slice(0, 2);
+  }
+
+  if (segments.length < 2) {
+    throw new Error("Invalid repository url");
+  }
+
+  const name = segments[segments.length - 1].replace(/\.git$/i, "");
+  const owner = segments.slice(0, -1).join("/");
+
+  const target = resolvedProvider === "gitea" ? parseGiteaSrc(rest) : parseTreeOrBlob(rest);
+  return { provider: resolvedProvider, host, owner, name, ...target };
+}
+
+/* Helpers */
+
+// Ref and path from the segments after the repo in a tree/blob link, e.g.
+// ["blob", "main", "docs", "intro.md"]. GitHub and GitLab (after "/-/")
+// links have the same shape. The segment after tree/blob is taken as the
+// ref, so branch names containing "/" can't be told apart from the path.
+function parseTreeOrBlob(segments: string[]): RepoUrlTarget {
+  const [kind, ref, ...path] = segments;
+  if ((kind !== "tree" && kind !== "blob") || !ref) return {};
+  return {
+    ref,
+    path: path.length > 0 ? path.join("/") : undefined,
+    isFile: kind === "blob",
+  };
+}
+
+// Gitea links folders and files alike as src/{branch|tag|commit}/{ref}/{path},
+// so `isFile` is left for the repo's tree to settle
+function parseGiteaSrc(segments: string[]): RepoUrlTarget {
+  const [route, kind, ref, ...path] = segments;
+  if (route !== "src" || !["branch", "tag", "commit"].includes(kind) || !ref) return {};
+  return { ref, path: path.length > 0 ? path.join("/") : undefined };
+}
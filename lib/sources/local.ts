@@ -0,0 +1,430 @@
+import { unzip } from "fflate";
+import { safeDecode, type GitTreeEntry } from "../utils";
+import { LOCAL_HOST, type ContentSource, type RepoLocation } from "./types";
+
+/**
+ * Local sources: a folder opened with the File System Access API, or a
+ * `.zip` of a repo. Both produce GitHub-shaped trees, so the sidebar,
+ * viewer, search and flashcards work unchanged.
+ *
+ * Folder handles and zip files are kept in IndexedDB so the source still
+ * works after a reload (folders may need their read permission re-granted).
+ * Folders are named by a random id rather than their folder name, so two
+ * folders called "notes" don't share caches; zips are named by file name,
+ * so dropping a newer download of an archive replaces the old one.
+ * Notes and decks get real git blob shas, so a pushed note shares its
+ * cache entry with GitHub. Folders are read live (see `isLiveLocalSource`);
+ * zips, which can't change, go through the content cache.
+ */
+
+// ─── Constants ─────────────────────────────────────────────────
+
+export const LOCAL_REF = "local";
+
+const DB_NAME = "docurepo-local";
+const DB_VERSION = 1;
+const STORE = "sources";
+
+// Never worth walking in a notes folder
+const SKIPPED_DIRS = new Set([".git", "node_modules", "__MACOSX"]);
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type LocalSourceKind = "folder" | "zip";
+
+type LocalBackend =
+  | { kind: "folder"; handle: FileSystemDirectoryHandle }
+  | { kind: "zip"; files: Map<string, Uint8Array> };
+
+/** A folder file's sha, valid while its size and modified time hold */
+interface HashedFile {
+  lastModified: number;
+  size: number;
+  sha: string;
+}
+
+interface StoredSource {
+  /** repo id, e.g. "local/folder/<random id>" or "local/zip/notes-main" */
+  id: string;
+  handle?: FileSystemDirectoryHandle;
+  zip?: Blob;
+}
+
+// ─── Registration ──────────────────────────────────────────────
+
+const backends = new Map<string, LocalBackend>();
+
+// Folder shas by source key, then path, so a re-walk only hashes edited files
+const folderHashes = new Map<string, Map<string, HashedFile>>();
+
+const sourceKey = (kind: string, name: string) => `${LOCAL_HOST}/${kind}/${name}`;
+
+export function isFolderPickerSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.showDirectoryPicker === "function";
+}
+
+/**
+ * Ask the user for a folder and register it as a source. Returns null if
+ * the picker was dismissed.
+ */
+export async function openLocalFolder(): Promise<RepoLocation | null> {
+  if (!window.showDirectoryPicker) {
+    throw new Error("This browser can't open folders. Use Chrome or Edge, or drop a .zip instead.");
+  }
+
+  let handle: FileSystemDirectoryHandle;
+  try {
+    handle = await window.showDirectoryPicker({ id: "docurepo-notes", mode: "read" });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "AbortError") return null;
+    throw e;
+  }
+
+  // Reopening a folder keeps its id, and with it the cached notes
+  const name = (await findStoredFolder(handle)) ?? crypto.randomUUID();
+  backends.set(sourceKey("folder", name), { kind: "folder", handle });
+  await putStored({ id: sourceKey("folder", name), handle });
+  return { ...localLocation("folder", name), label: handle.name };
+}
+
+/** Register a `.zip` of a repo (e.g. GitHub's "Download ZIP") as a source. */
+export async function openLocalZip(file: File): Promise<RepoLocation> {
+  if (!/\.zip$/i.test(file.name)) {
+    throw new Error(`"${file.name}" is not a .zip file`);
+  }
+
+  const name = file.name.replace(/\.zip$/i, "");
+  const files = await readZip(file);
+  if (files.size === 0) {
+    throw new Error(`"${file.name}" contains no files`);
+  }
+
+  backends.set(sourceKey("zip", name), { kind: "zip", files });
+  await putStored({ id: sourceKey("zip", name), zip: file });
+  return localLocation("zip", name);
+}
+
+/** Drop a local source's stored handle or archive. */
+export async function forgetLocalSource(owner: string, name: string): Promise<void> {
+  const id = sourceKey(owner, name);
+  backends.delete(id);
+  folderHashes.delete(id);
+  await deleteStored(id);
+}
+
+/**
+ * A folder on disk, which can change under the app at any time (unlike a
+ * zip, which is a snapshot). Its tree and files are re-read rather than
+ * served from the content cache.
+ */
+export function isLiveLocalSource(location: Pick<RepoLocation, "provider" | "owner">): boolean {
+  return location.provider === "local" && location.owner === "folder";
+}
+
+function localLocation(kind: LocalSourceKind, name: string): RepoLocation {
+  return { provider: "local", host: LOCAL_HOST, owner: kind, name };
+}
+
+// ─── Source ────────────────────────────────────────────────────
+
+export const localSource: ContentSource = {
+  provider: "local",
+  host: LOCAL_HOST,
+
+  async getDefaultBranch() {
+    return LOCAL_REF;
+  },
+
+  async listRefs() {
+    return { branches: [LOCAL_REF], tags: [] };
+  },
+
+  async listTree(owner, repo) {
+    const backend = await getBackend(owner, repo);
+    return backend.kind === "folder"
+      ? walkFolder(backend.handle, sourceKey(owner, repo))
+      : zipTree(backend.files);
+  },
+
+  async readFile(owner, repo, path) {
+    const bytes = await readBytes(owner, repo, path);
+    return new TextDecoder().decode(bytes);
+  },
+
+  async readBlob(owner, repo, path) {
+    const bytes = await readBytes(owner, repo, path);
+    return new Blob([bytes as BlobPart]);
+  },
+
+  rawUrl() {
+    return null;
+  },
+
+  async validateToken() {
+    throw new Error("Local sources don't use access tokens");
+  },
+};
+
+// ─── Backends ──────────────────────────────────────────────────
+
+async function getBackend(owner: string, name: string): Promise<LocalBackend> {
+  const id = sourceKey(owner, name);
+  const loaded = backends.get(id);
+  if (loaded) {
+    if (loaded.kind === "folder") await ensurePermission(loaded.handle);
+    return loaded;
+  }
+
+  // Restore after a reload
+  const stored = await getStored(id);
+  let backend: LocalBackend | null = null;
+  if (stored?.handle) {
+    await ensurePermission(stored.handle);
+    backend = { kind: "folder", handle: stored.handle };
+  } else if (stored?.zip) {
+    backend = { kind: "zip", files: await readZip(stored.zip) };
+  }
+
+  if (!backend) {
+    const label = owner === "folder" ? "This folder" : `"${name}"`;
+    throw new Error(`${label} is no longer available. Open it again from Add Repository.`);
+  }
+
+  backends.set(id, backend);
+  return backend;
+}
+
+async function ensurePermission(handle: FileSystemDirectoryHandle): Promise<void> {
+  if (!handle.queryPermission) return;
+  if ((await handle.queryPermission({ mode: "read" })) === "granted") return;
+
+  // Only succeeds during a user gesture (e.g. clicking a note)
+  const state = await handle.requestPermission?.({ mode: "read" }).catch(() => "denied");
+  if (state !== "granted") {
+    throw new Error(
+      `Access to the folder "${handle.name}" needs to be granted again. Open it from Add Repository.`,
+    );
+  }
+}
+
+async function readBytes(owner: string, name: string, path: string): Promise<Uint8Array> {
+  const backend = await getBackend(owner, name);
+  const decoded = safeDecode(path).replace(/^\/+/, "");
+
+  if (backend.kind === "zip") {
+    const bytes = backend.files.get(decoded);
+    if (!bytes) throw new Error(`Not found in archive: ${decoded}`);
+    return bytes;
+  }
+
+  try {
+    let dir = backend.handle;
+    const parts = decoded.split("/");
+    for (const part of parts.slice(0, -1)) {
+      dir = await dir.getDirectoryHandle(part);
+    }
+    const file = await (await dir.getFileHandle(parts[parts.length - 1])).getFile();
+    return new Uint8Array(await file.arrayBuffer());
+  } catch {
+    throw new Error(`Not found in folder: ${decoded}`);
+  }
+}
+
+// ─── Trees ─────────────────────────────────────────────────────
+
+async function walkFolder(root: FileSystemDirectoryHandle, id: string): Promise<GitTreeEntry[]> {
+  const entries: GitTreeEntry[] = [];
+  const previous = folderHashes.get(id);
+  const hashes = new Map<string, HashedFile>();
+
+  const walk = async (dir: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const handle of dir.values()) {
+      const path = prefix ? `${prefix}/${handle.name}` : handle.name;
+
+      if (handle.kind === "directory") {
+        if (SKIPPED_DIRS.has(handle.name)) continue;
+        entries.push({ path, type: "tree", mode: "040000" });
+        await walk(handle, path);
+      } else {
+        const file = await handle.getFile();
+        let sha: string | undefined;
+        if (isHashedFile(path)) {
+          const known = previous?.get(path);
+          sha = known && known.lastModified === file.lastModified && known.size === file.size
+            ? known.sha
+            : await gitBlobSha(new Uint8Array(await file.arrayBuffer()));
+          hashes.set(path, { lastModified: file.lastModified, size: file.size, sha });
+        }
+        entries.push({ path, type: "blob", mode: "100644", size: file.size, sha });
+      }
+    }
+  };
+
+  await walk(root, "");
+  folderHashes.set(id, hashes);
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function zipTree(files: Map<string, Uint8Array>): Promise<GitTreeEntry[]> {
+  const entries: GitTreeEntry[] = [];
+  const folders = new Set<string>();
+
+  for (const [path, bytes] of files) {
+    const parts = path.split("/");
+    for (let i = 1; i < parts.length; i++) {
+      folders.add(parts.slice(0, i).join("/"));
+    }
+    entries.push({
+      path,
+      type: "blob",
+      mode: "100644",
+      size: bytes.length,
+      sha: isHashedFile(path) ? await gitBlobSha(bytes) : undefined,
+    });
+  }
+
+  for (const path of folders) {
+    entries.push({ path, type: "tree", mode: "040000" });
+  }
+
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Unzip into a path → bytes map. A single top-level folder (as in GitHub's
+ * "notes-main/…" archives) is stripped so paths match the repo.
+ */
+function readZip(blob: Blob): Promise<Map<string, Uint8Array>> {
+  return blob.arrayBuffer().then(
+    (buffer) =>
+      new Promise((resolve, reject) => {
+        unzip(new Uint8Array(buffer), (err, data) => {
+          if (err) {
+            reject(new Error(`Could not read zip archive: ${err.message}`));
+            return;
+          }
+
+          const paths = Object.keys(data).filter(
+            (path) => !path.endsWith("/") && !path.split("/").some((p) => SKIPPED_DIRS.has(p)),
+          );
+          const roots = new Set(paths.map((path) => path.split("/")[0]));
+          const strip =
+            roots.size === 1 && paths.every((path) => path.includes("/"))
+              ? `${[...roots][0]}/`
+              : "";
+
+          const files = new Map<string, Uint8Array>();
+          for (const path of paths) {
+            files.set(path.slice(strip.length), data[path]);
+          }
+          resolve(files);
+        });
+      }),
+  );
+}
+
+// ─── Storage ───────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Sources still work for this session, just not after a reload
+      console.warn("Local source storage unavailable:", request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+async function getStored(id: string): Promise<StoredSource | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve) => {
+    const request = db.transaction(STORE, "readonly").objectStore(STORE).get(id);
+    request.onsuccess = () => resolve(request.result as StoredSource | undefined);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+/** Id of a previously opened folder that is the same as `handle`. */
+async function findStoredFolder(handle: FileSystemDirectoryHandle): Promise<string | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  const stored = await new Promise<StoredSource[]>((resolve) => {
+    const request = db.transaction(STORE, "readonly").objectStore(STORE).getAll();
+    request.onsuccess = () => resolve(request.result as StoredSource[]);
+    request.onerror = () => resolve([]);
+  });
+
+  const prefix = sourceKey("folder", "");
+  for (const source of stored) {
+    if (source.handle && (await source.handle.isSameEntry(handle).catch(() => false))) {
+      return source.id.slice(prefix.length);
+    }
+  }
+  return undefined;
+}
+
+async function putStored(value: StoredSource): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put(value);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => {
+      console.warn("Local source storage write failed:", tx.error);
+      resolve();
+    };
+  });
+}
+
+async function deleteStored(id: string): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  return new Promise((resolve) => {
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => resolve();
+  });
+}
+
+/* Helpers */
+
+// Notes and decks: the files the content cache stores
+function isHashedFile(path: string): boolean {
+  return /\.(md|ya?ml)$/i.test(path);
+}
+
+/** The sha git would give this content ("blob <size>\0" + bytes, SHA-1). */
+async function gitBlobSha(bytes: Uint8Array): Promise<string> {
+  const header = new TextEncoder().encode(`blob ${bytes.length}\0`);
+  const buffer = new Uint8Array(header.length + bytes.length);
+  buffer.set(header);
+  buffer.set(bytes, header.length);
+
+  const digest = await crypto.subtle.digest("SHA-1", buffer);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,127 @@
+/**
+ * Content sources — where a repo's notes are read from.
+ *
+ * Every host (GitHub, GitLab, Gitea, or a local folder / zip) implements the
+ * same `ContentSource` interface, so the cache, sidebar and viewers never
+ * talk to a specific API.
+ */
+
+import type {
+  GitTreeEntry,
+  RepoRefs,
+  RequestPriority,
+  TreeProgress,
+  TreeSnapshot,
+} from "../utils";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+export const GITHUB_HOST = "github.com";
+
+/** Host of local sources; their owner is the kind ("folder" or "zip"). */
+export const LOCAL_HOST = "local";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export type SourceProvider = "github" | "gitlab" | "gitea" | "local";
+
+/** Where a repository lives: enough to pick a source and address the repo. */
+export interface RepoLocation {
+  provider: SourceProvider;
+  /** Hostname (and port, if any), e.g. "gitlab.com" or "git.example.edu" */
+  host: string;
+  /** User, organisation or (GitLab) group path, e.g. "group/subgroup" */
+  owner: string;
+  name: string;
+  /** Name to show, when `name` is an id (local folders) */
+  label?: string;
+}
+
+export interface ContentSource {
+  readonly provider: SourceProvider;
+  readonly host: string;
+
+  getDefaultBranch(
+    owner: string,
+    repo: string,
+    options?: { token?: string },
+  ): Promise<string>;
+
+  listRefs(
+    owner: string,
+    repo: string,
+    options?: { token?: string },
+  ): Promise<RepoRefs>;
+
+  /** Full recursive tree for a ref, in GitHub's tree-entry shape. */
+  listTree(
+    owner: string,
+    repo: string,
+    options?: {
+      ref?: string;
+      token?: string;
+      onProgress?: (progress: TreeProgress) => void;
+    },
+  ): Promise<GitTreeEntry[]>;
+
+  /**
+   * Conditional tree fetch: sends `etag` as If-None-Match and resolves null
+   * when the tree is unchanged. Optional — sources without it always
+   * download the full tree on refresh.
+   */
+  listTreeIfChanged?(
+    owner: string,
+    repo: string,
+    options?: {
+      ref?: string;
+      token?: string;
+      etag?: string;
+      onProgress?: (progress: TreeProgress) => void;
+    },
+  ): Promise<TreeSnapshot | null>;
+
+  /** File contents as text. */
+  readFile(
+    owner: string,
+    repo: string,
+    path: string,
+    options?: { ref?: string; token?: string; priority?: RequestPriority },
+  ): Promise<string>;
+
+  /** File contents as a Blob, for assets that need an authenticated fetch. */
+  readBlob(
+    owner: string,
+    repo: string,
+    path: string,
+    options?: { ref?: string; token?: string },
+  ): Promise<Blob>;
+
+  /**
+   * Public URL for an asset, usable directly as an <img> src, or null when
+   * assets can only be read through `readBlob` (local sources).
+   */
+  rawUrl(owner: string, repo: string, ref: string, path: string): string | null;
+
+  /** Check a token and return its account; also checks repo access if given. */
+  validateToken(
+    token: string,
+    repo?: { owner: string; name: string },
+  ): Promise<{ login: string; scopes: string[] }>;
+}
+
+// ─── Identity ──────────────────────────────────────────────────
+
+/**
+ * Stable id for a repo, also used as its token scope and cache key.
+ * GitHub repos keep the plain "owner/name" they had before other hosts
+ * were supported; other hosts are prefixed with the hostname.
+ */
+export function repoId(location: Pick<RepoLocation, "host" | "owner" | "name">): string {
+  const path = `${location.owner}/${location.name}`;
+  return location.host === GITHUB_HOST ? path : `${location.host}/${path}`;
+}
+
+/** Name to show for a repo. */
+export function repoLabel(location: Pick<RepoLocation, "name" | "label">): string {
+  return location.label ?? location.name;
+}
@@ -0,0 +1,117 @@
+/**
+ * Tags
+ *
+ * A note's tags are its frontmatter `tags` plus any `#tags` written in the
+ * body (outside code). Tags are matched case-insensitively, and nested tags
+ * (`#course/week2`) also count towards their parents (`#course`).
+ */
+
+import type { IndexedNote, MetadataIndex } from "./note-metadata";
+import { normalizeRootPath } from "./utils";
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface TagSummary {
+  /** Lowercase tag, used in URLs */
+  key: string;
+  /** Tag as first written in the repo */
+  label: string;
+  /** Notes tagged with it or one of its nested tags */
+  count: number;
+}
+
+// ─── Extraction ────────────────────────────────────────────────
+
+// "#" at a line start or after whitespace, then letters, digits, _ - /
+const INLINE_TAG_RE = /(?:^|[\s,;])#([\p{L}\p{N}_\-/]+)/gu;
+
+/** `#tags` written in a note body, ignoring code blocks and code spans. */
+export function extractInlineTags(body: string): string[] {
+  const text = body
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, "")
+    .replace(/`[^`\n]*`/g, "");
+
+  const tags = new Map<string, string>();
+  for (const match of text.matchAll(INLINE_TAG_RE)) {
+    const tag = match[1].replace(/\/+$/, "");
+    // "#123" is an issue number or a heading anchor, not a tag
+    if (!tag || /^[\p{N}/_-]+$/u.test(tag)) continue;
+    if (!tags.has(tagKey(tag))) tags.set(tagKey(tag), tag);
+  }
+  return Array.from(tags.values());
+}
+
+// ─── Lookups ───────────────────────────────────────────────────
+
+export function tagKey(tag: string): string {
+  return tag.replace(/^#/, "").toLowerCase();
+}
+
+/** App route of a tag page. */
+export function tagHref(tag: string): string {
+  return `/tags/${tagKey(tag).split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/** Frontmatter and inline tags of an indexed note, deduplicated. */
+export function noteTags(note: IndexedNote | undefined): string[] {
+  if (!note) return [];
+  const tags = new Map<string, string>();
+  for (const tag of [...note.tags, ...(note.inlineTags ?? [])]) {
+    if (!tags.has(tagKey(tag))) tags.set(tagKey(tag), tag);
+  }
+  return Array.from(tags.values());
+}
+
+/** Every tag used by notes under `rootPath`, most used first. */
+export function collectTags(index: MetadataIndex, rootPath?: string): TagSummary[] {
+  const summaries = new Map<string, TagSummary>();
+
+  for (const [path, note] of Object.entries(index)) {
+    if (!inRoot(path, rootPath)) continue;
+
+    // Count a note once per tag, even when both #a and #a/b apply
+    const keys = new Map<string, string>();
+    for (const tag of noteTags(note)) {
+      for (const [key, label] of withParents(tag)) {
+        if (!keys.has(key)) keys.set(key, label);
+      }
+    }
+
+    for (const [key, label] of keys) {
+      const summary = summaries.get(key);
+      if (summary) summary.count++;
+      else summaries.set(key, { key, label, count: 1 });
+    }
+  }
+
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.count - a.count || a.key.localeCompare(b.key),
+  );
+}
+
+/** Paths of notes under `rootPath` tagged `tag` (or a tag nested in it). */
+export function notesWithTag(index: MetadataIndex, tag: string, rootPath?: string): string[] {
+  const key = tagKey(tag);
+  return Object.entries(index)
+    .filter(([path, note]) =>
+      inRoot(path, rootPath) &&
+      noteTags(note).some((t) => tagKey(t) === key || tagKey(t).startsWith(`${key}/`)),
+    )
+    .map(([path]) => path);
+}
+
+/* Helpers */
+
+// "a/b/c" → a, a/b, a/b/c as [key, label] pairs
+function withParents(tag: string): [string, string][] {
+  const parts = tag.split("/");
+  return parts.map((_, i) => {
+    const label = parts.slice(0, i + 1).join("/");
+    return [tagKey(label), label];
+  });
+}
+
+function inRoot(path: string, rootPath?: string): boolean {
+  const root = normalizeRootPath(rootPath);
+  return !root || path.startsWith(`${root}/`);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { normalizeRootPath, safeDecode, scopeTree } from "./utils";
+
+describe("normalizeRootPath", () => {
+  it("strips slashes and whitespace", () => {
+    expect(normalizeRootPath(" /courses/STU 1201/ ")).toBe("courses/STU 1201");
+    expect(normalizeRootPath("//docs//")).toBe("docs");
+  });
+
+  it("is empty for the whole repo", () => {
+    expect(normalizeRootPath(undefined)).toBe("");
+    expect(normalizeRootPath("")).toBe("");
+    expect(normalizeRootPath("/")).toBe("");
+  });
+});
+
+describe("scopeTree", () => {
+  const tree = [
+    { path: "README.md" },
+    { path: "docs" },
+    { path: "docs/intro.md" },
+    { path: "docs/week3" },
+    { path: "docs/week3/notes.md" },
+    { path: "docs-old/intro.md" },
+  ];
+
+  it("keeps the whole tree without a root", () => {
+    expect(scopeTree(tree)).toBe(tree);
+    expect(scopeTree(tree, "/")).toBe(tree);
+  });
+
+  it("keeps only entries inside the root, not the root itself", () => {
+    expect(scopeTree(tree, "docs").map((entry) => entry.path)).toEqual([
+      "docs/intro.md",
+      "docs/week3",
+      "docs/week3/notes.md",
+    ]);
+  });
+
+  it("doesn't match folders that only share a prefix", () => {
+    expect(scopeTree(tree, "/docs/week3/").map((entry) => entry.path)).toEqual(["docs/week3/notes.md"]);
+    expect(scopeTree(tree, "doc")).toEqual([]);
+  });
+});
+
+describe("safeDecode", () => {
+  it("decodes percent-encoding", () => {
+    expect(safeDecode("STU%201201/week%202.md")).toBe("STU 1201/week 2.md");
+  });
+
+  it("leaves text that isn't valid encoding as it is", () => {
+    expect(safeDecode("100% done.md")).toBe("100% done.md");
+  });
+});
@@ -1,5 +1,12 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { getToken } from "./github-tokens";
+import {
+  LOW_WATER_MARK,
+  formatResetTime,
+  getRateLimit,
+  recordRateLimit,
+} from "./github-rate-limit";
 
 /**
  * Merge class names (Tailwind friendly).
@@ -9,39 +16,53 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Parse a GitHub repository URL into owner and repo.
- *
- * Accepts forms like:
- * - https://github.com/owner/repo
- * - https://github.com/owner/repo.git
- * - git@github.com:owner/repo.git
- * - github.com/owner/repo
+ * Error raised for a failed request to a content source (GitHub, GitLab,
+ * Gitea). `status` is the HTTP status, so callers can tell a missing/private
+ * repo (404) from a bad token (401).
  */
-export function parseGithubUrl(url: string): { owner: string; repo: string } {
-  if (!url || typeof url !== "string") {
-    throw new Error("Invalid github repo url");
-  }
-
-  // Normalize common git@ style to https-like path
-  const normalized = url.startsWith("git@")
-    ? url.replace(/^git@/, "https://").replace(":", "/")
-    : url;
-
-  // Allow urls with or without protocol
-  const withHost = normalized.includes("github.com")
-    ? normalized
-    : `https://${normalized}`;
+export class SourceApiError extends Error {
+  status: number;
 
-  const match = withHost.match(/github\.com\/([^/]+)\/([^/]+?)(?:\.git|\/|$)/i);
-
-  if (!match) {
-    throw new Error("Invalid github repo url");
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SourceApiError";
+    this.status = status;
   }
+}
 
-  const owner = match[1];
-  const repo = match[2].replace(/\.git$/i, "");
+/**
+ * Error raised for a failed GitHub API request.
+ */
+export class GitHubApiError extends SourceApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "GitHubApiError";
+  }
+}
 
-  return { owner, repo };
+/**
+ * Raised instead of a generic failure when the GitHub API quota is spent,
+ * or when a low-priority request is refused to save the remaining quota.
+ */
+export class RateLimitError extends GitHubApiError {
+  limit: number;
+  remaining: number;
+  /** Timestamp (ms) when the quota resets */
+  resetAt: number;
+
+  constructor(limit: number, remaining: number, resetAt: number, authenticated: boolean) {
+    const hint = authenticated ? "" : " Add a GitHub token in Settings to raise the limit.";
+    super(
+      remaining > 0
+        ? `GitHub API quota is low (${remaining}/${limit} left until ${formatResetTime(resetAt)}); skipped a non-essential request.${hint}`
+        : `GitHub API rate limit reached (${limit} requests/hour). Resets at ${formatResetTime(resetAt)}.${hint}`,
+      403,
+    );
+    this.name = "RateLimitError";
+    this.limit = limit;
+    this.remaining = remaining;
+    this.resetAt = resetAt;
+  }
 }
 
 /**
@@ -57,46 +78,173 @@ export type GitTreeEntry = {
 };
 
 /**
- * Fetch the repository tree for a branch (defaults to `main`) recursively.
- *
- * Options:
- * - branch: branch name to fetch (default: "main")
- * - token: optional GitHub token to increase rate limits / access private repos
+ * Branches and tags available on a repository, as returned by `fetchRepoRefs`.
  */
-export async function fetchRepoTree(
+export type RepoRefs = {
+  branches: string[];
+  tags: string[];
+};
+
+/**
+ * Look up the default branch of a repository via the repos API.
+ */
+export async function fetchDefaultBranch(
   owner: string,
   repo: string,
-  options?: { branch?: string; token?: string },
-): Promise<GitTreeEntry[]> {
-  const branch = options?.branch ?? "main";
-  const url = `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(
-    branch,
-  )}?recursive=1`;
-
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github.v3+json",
-  };
-
-  if (options?.token) {
-    headers.Authorization = `token ${options.token}`;
-  }
+  options?: { token?: string },
+): Promise<string> {
+  const url = `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const token = options?.token ?? getToken(owner, repo);
 
-  const res = await fetch(url, { headers });
+  const res = await githubFetch(url, {
+    headers: githubHeaders("application/vnd.github.v3+json", token),
+  });
 
   if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(
-      `Tree fetch failed (${res.status} ${res.statusText}): ${text || "no body"}`,
-    );
+    throw await toApiError(res, "Repository fetch", !!token);
   }
 
   const data = await res.json().catch(() => null);
 
-  if (!data || !Array.isArray(data.tree)) {
+  if (!data || typeof data.default_branch !== "string") {
     throw new Error("Unexpected response format from GitHub API");
   }
 
-  return data.tree as GitTreeEntry[];
+  return data.default_branch;
+}
+
+/**
+ * List the branches and tags of a repository (first 100 of each).
+ */
+export async function fetchRepoRefs(
+  owner: string,
+  repo: string,
+  options?: { token?: string },
+): Promise<RepoRefs> {
+  const base = `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const token = options?.token ?? getToken(owner, repo);
+  const headers = githubHeaders("application/vnd.github.v3+json", token);
+
+  const fetchNames = async (kind: "branches" | "tags"): Promise<string[]> => {
+    const res = await githubFetch(`${base}/${kind}?per_page=100`, { headers });
+
+    if (!res.ok) {
+      throw await toApiError(res, "Ref fetch", !!token);
+    }
+
+    const data = await res.json().catch(() => null);
+
+    if (!Array.isArray(data)) {
+      throw new Error("Unexpected response format from GitHub API");
+    }
+
+    return data
+      .map((entry: { name?: unknown }) => entry.name)
+      .filter((name): name is string => typeof name === "string");
+  };
+
+  const [branches, tags] = await Promise.all([
+    fetchNames("branches"),
+    fetchNames("tags"),
+  ]);
+
+  return { branches, tags };
+}
+
+/**
+ * Progress of a tree walk, reported when GitHub truncates the recursive
+ * listing and subtrees have to be fetched one by one.
+ */
+export type TreeProgress = {
+  /** Subtrees fetched so far */
+  done: number;
+  /** Subtrees discovered so far (grows as the walk descends) */
+  total: number;
+};
+
+/**
+ * A fetched tree plus what's needed to revalidate it later.
+ */
+export type TreeSnapshot = {
+  entries: GitTreeEntry[];
+  /** Root tree sha */
+  sha?: string;
+  /** ETag of the root tree response, for If-None-Match */
+  etag?: string;
+};
+
+/**
+ * Fetch the repository tree for a ref recursively.
+ *
+ * GitHub caps recursive listings (~100k entries / 7 MB) and sets
+ * `truncated: true` on the response. In that case the tree is assembled by
+ * walking subtrees by sha instead, reporting progress through `onProgress`.
+ *
+ * Options:
+ * - ref: branch, tag or commit sha to fetch (default: "HEAD", the default branch)
+ * - token: GitHub token override; defaults to the token saved for this repo
+ * - onProgress: called as subtrees are fetched during a truncated-tree walk
+ */
+export async function fetchRepoTree(
+  owner: string,
+  repo: string,
+  options?: {
+    ref?: string;
+    token?: string;
+    onProgress?: (progress: TreeProgress) => void;
+  },
+): Promise<GitTreeEntry[]> {
+  const snapshot = await fetchRepoTreeIfChanged(owner, repo, options);
+  // Without an etag the request is unconditional, so there is always a body
+  return snapshot!.entries;
+}
+
+/**
+ * Conditional variant of `fetchRepoTree`: sends `If-None-Match: etag` and
+ * resolves null when GitHub answers 304 Not Modified. 304s don't count
+ * against the rate limit, which makes refreshing an unchanged repo free.
+ */
+export async function fetchRepoTreeIfChanged(
+  owner: string,
+  repo: string,
+  options?: {
+    ref?: string;
+    token?: string;
+    etag?: string;
+    onProgress?: (progress: TreeProgress) => void;
+  },
+): Promise<TreeSnapshot | null> {
+  const ref = options?.ref ?? "HEAD";
+  const token = options?.token ?? getToken(owner, repo);
+
+  const root = await fetchTreeListing(owner, repo, ref, true, token, options?.etag);
+  if (!root) return null;
+
+  if (!root.truncated) {
+    return { entries: root.tree, sha: root.sha, etag: root.etag };
+  }
+
+  console.warn(
+    `Tree for ${owner}/${repo}@${ref} was truncated by GitHub; walking subtrees instead`,
+  );
+  const entries = await walkTruncatedTree(owner, repo, root.sha, token, options?.onProgress);
+  return { entries, sha: root.sha, etag: root.etag };
+}
+
+/**
+ * Build a raw.githubusercontent.com URL for a repository file at a ref.
+ *
+ * `path` may already be URL-encoded; each segment is normalised so spaces
+ * and special characters are encoded exactly once.
+ */
+export function buildRawUrl(
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string,
+): string {
+  const encodedPath = encodeRepoPath(path);
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${encodedPath}`;
 }
 
 /**
@@ -109,6 +257,8 @@ export type NavItem = {
   url: string;
   isActive?: boolean;
   items?: NavItem[];
+  /** Folder opens the flashcards hub (set by `applySidebarConfig`) */
+  isFlashcards?: boolean;
 };
 
 /**
@@ -119,8 +269,10 @@ export type NavItem = {
  * - Files are leaves (no children); directories contain `items`.
  * - File titles have their extension stripped for readability.
  * - The `url` is the raw repository path (e.g. `docs/intro.md`).
+ * - With a `rootPath`, only that folder's contents are included (as
+ *   top-level items), but urls stay full repository paths.
  */
-export function buildSidebar(tree: GitTreeEntry[]): NavItem[] {
+export function buildSidebar(tree: GitTreeEntry[], rootPath?: string): NavItem[] {
   type InternalNode = {
     children: Record<string, InternalNode>;
     isFile?: boolean;
@@ -156,12 +308,14 @@ export function buildSidebar(tree: GitTreeEntry[]): NavItem[] {
     return Array.from(imageExtensions).some((ext) => lower.endsWith(ext));
   };
 
-  for (const entry of tree) {
+  const scope = normalizeRootPath(rootPath);
+
+  for (const entry of scopeTree(tree, scope)) {
     // Skip entries that don't have a path
     if (!entry || typeof entry.path !== "string" || entry.path.length === 0)
       continue;
 
-    const parts = entry.path.split("/").filter(Boolean);
+    const parts = entry.path.slice(scope ? scope.length + 1 : 0).split("/").filter(Boolean);
 
     // Skip any paths that contain hidden files/directories (starting with '.')
     if (parts.some((part) => part.startsWith("."))) continue;
@@ -214,7 +368,20 @@ export function buildSidebar(tree: GitTreeEntry[]): NavItem[] {
     });
   }
 
-  return convert(root, "");
+  return convert(root, scope);
+}
+
+/** Canonical form of a repo root folder: no leading/trailing slashes, "" for the whole repo. */
+export function normalizeRootPath(rootPath?: string): string {
+  return (rootPath ?? "").trim().replace(/^\/+|\/+$/g, "");
+}
+
+/** Tree entries inside `rootPath` (the folder itself excluded), or the whole tree. */
+export function scopeTree<T extends { path: string }>(tree: T[], rootPath?: string): T[] {
+  const root = normalizeRootPath(rootPath);
+  if (!root) return tree;
+  const prefix = `${root}/`;
+  return tree.filter((entry) => entry.path.startsWith(prefix));
 }
 
 /**
@@ -222,13 +389,16 @@ export function buildSidebar(tree: GitTreeEntry[]): NavItem[] {
  *
  * - Uses the GitHub contents API with Accept: application/vnd.github.raw so the body
  *   is returned as raw file text.
- * - Pass a token via options.token for private repos or higher rate limits.
+ * - Uses the token saved for this repo (see `lib/github-tokens.ts`) unless
+ *   options.token overrides it.
+ * - `priority: "low"` marks optional requests (e.g. content search) that are
+ *   refused once the rate limit runs low, keeping quota for navigation.
  */
 export async function fetchMarkdown(
   owner: string,
   repo: string,
   path: string,
-  options?: { token?: string; ref?: string },
+  options?: { token?: string; ref?: string; priority?: RequestPriority },
 ): Promise<string> {
   if (!path || path.length === 0) {
     throw new Error("Path must be provided");
@@ -241,39 +411,338 @@ export async function fetchMarkdown(
   const encOwner = encodeURIComponent(owner);
   const encRepo = encodeURIComponent(repo);
 
-  // Encode each path segment but preserve forward slashes so GitHub API
-  // receives a path like "docs/intro.md" rather than "docs%2Fintro.md".
-  // First decode any existing encoding to prevent double-encoding.
-  const encodedPath = path
-    .split("/")
-    .map((segment) => encodeURIComponent(decodeURIComponent(segment)))
-    .join("/");
+  const encodedPath = encodeRepoPath(path);
 
   const url = `https://api.github.com/repos/${encOwner}/${encRepo}/contents/${encodedPath}${params}`;
+  const token = options?.token ?? getToken(owner, repo);
 
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github.raw",
-  };
+  const res = await githubFetch(
+    url,
+    { headers: githubHeaders("application/vnd.github.raw", token) },
+    options?.priority,
+  );
+
+  if (!res.ok) {
+    throw await toApiError(res, "Markdown fetch", !!token);
+  }
+
+  const body = await res.text();
+  return body;
+}
+
+/**
+ * Fetch a repository file as a Blob through the contents API.
+ *
+ * raw.githubusercontent.com does not accept tokens from the browser, so
+ * images in private repos are loaded this way and shown via an object URL.
+ */
+export async function fetchRawBlob(
+  owner: string,
+  repo: string,
+  path: string,
+  options?: { token?: string; ref?: string },
+): Promise<Blob> {
+  const params = options?.ref ? `?ref=${encodeURIComponent(options.ref)}` : "";
+  const url = `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(
+    repo,
+  )}/contents/${encodeRepoPath(path)}${params}`;
+  const token = options?.token ?? getToken(owner, repo);
 
-  if (options?.token) {
-    headers.Authorization = `token ${options.token}`;
+  const res = await githubFetch(url, {
+    headers: githubHeaders("application/vnd.github.raw", token),
+  });
+
+  if (!res.ok) {
+    throw await toApiError(res, "File fetch", !!token);
   }
 
-  const res = await fetch(url, { headers });
+  return res.blob();
+}
+
+/**
+ * Check a token against the GitHub API and return the account it belongs to.
+ *
+ * When `repo` is given, also verifies the token can read that repository.
+ */
+export async function validateToken(
+  token: string,
+  repo?: { owner: string; name: string },
+): Promise<{ login: string; scopes: string[] }> {
+  const headers = githubHeaders("application/vnd.github.v3+json", token);
+
+  const res = await githubFetch("https://api.github.com/user", { headers });
 
   if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(
-      `Markdown fetch failed (${res.status} ${res.statusText}): ${text || "no body"}`,
+    throw await toApiError(res, "Token check", true);
+  }
+
+  const data = await res.json().catch(() => null);
+
+  if (!data || typeof data.login !== "string") {
+    throw new Error("Unexpected response format from GitHub API");
+  }
+
+  const scopes = (res.headers.get("X-OAuth-Scopes") ?? "")
+    .split(",")
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+
+  if (repo) {
+    const repoRes = await githubFetch(
+      `https://api.github.com/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`,
+      { headers },
     );
+    if (!repoRes.ok) {
+      throw new GitHubApiError(
+        `Token for ${data.login} cannot access ${repo.owner}/${repo.name} (${repoRes.status}).`,
+        repoRes.status,
+      );
+    }
   }
 
-  const body = await res.text();
-  return body;
+  return { login: data.login, scopes };
 }
 
 /* Helpers */
 
+/** "low" requests are refused when the quota is nearly spent. */
+export type RequestPriority = "normal" | "low";
+
+const MAX_RETRIES = 2;
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// Requests made while the quota is low run one at a time through this chain
+let lowQuotaQueue: Promise<void> = Promise.resolve();
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * fetch() for api.github.com that tracks `X-RateLimit-*` headers.
+ *
+ * - Fails fast with RateLimitError while the quota is known to be spent.
+ * - Near the limit, queues requests and spaces them across the time left
+ *   until reset, and refuses low-priority ones outright.
+ * - Retries secondary rate limits that send a short `Retry-After`.
+ */
+async function githubFetch(
+  url: string,
+  init: RequestInit & { headers: Record<string, string> },
+  priority: RequestPriority = "normal",
+): Promise<Response> {
+  const authenticated = !!init.headers.Authorization;
+  // Anonymous and token quotas are separate, so a spent anonymous quota
+  // must not block the request that validates a newly added token.
+  const state = getRateLimit();
+  const known = state?.authenticated === authenticated ? state : null;
+
+  if (known && known.remaining <= 0) {
+    throw new RateLimitError(known.limit, 0, known.resetAt, authenticated);
+  }
+
+  if (known && known.remaining <= LOW_WATER_MARK) {
+    if (priority === "low") {
+      throw new RateLimitError(known.limit, known.remaining, known.resetAt, authenticated);
+    }
+
+    const spacing = Math.min(
+      Math.max((known.resetAt - Date.now()) / Math.max(known.remaining, 1), 250),
+      5000,
+    );
+    const turn = lowQuotaQueue.then(() => sleep(spacing));
+    lowQuotaQueue = turn;
+    await turn;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(url, init);
+    recordRateLimit(res.headers, authenticated);
+
+    if (res.status !== 403 && res.status !== 429) return res;
+
+    if (res.headers.get("X-RateLimit-Remaining") === "0") {
+      const spent = getRateLimit();
+      throw new RateLimitError(
+        spent?.limit ?? 0,
+        0,
+        spent?.resetAt ?? Date.now() + 3_600_000,
+        authenticated,
+      );
+    }
+
+    const retryAfterMs = Number(res.headers.get("Retry-After")) * 1000;
+    if (!retryAfterMs || retryAfterMs > MAX_RETRY_AFTER_MS || attempt >= MAX_RETRIES) {
+      return res;
+    }
+    await sleep(retryAfterMs);
+  }
+}
+
+type TreeListing = {
+  sha: string;
+  tree: GitTreeEntry[];
+  truncated: boolean;
+  etag?: string;
+};
+
+/**
+ * Fetch one tree object (by ref or sha), optionally recursive. With an
+ * `etag`, resolves null if the tree hasn't changed (304).
+ */
+async function fetchTreeListing(
+  owner: string,
+  repo: string,
+  treeish: string,
+  recursive: boolean,
+  token: string | undefined,
+  etag?: string,
+): Promise<TreeListing | null> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(
+    treeish,
+  )}${recursive ? "?recursive=1" : ""}`;
+
+  const headers = githubHeaders("application/vnd.github.v3+json", token);
+  if (etag) headers["If-None-Match"] = etag;
+
+  const res = await githubFetch(url, { headers });
+
+  if (res.status === 304) return null;
+
+  if (!res.ok) {
+    throw await toApiError(res, "Tree fetch", !!token);
+  }
+
+  const data = await res.json().catch(() => null);
+
+  if (!data || !Array.isArray(data.tree)) {
+    throw new Error("Unexpected response format from GitHub API");
+  }
+
+  return {
+    sha: data.sha,
+    tree: data.tree as GitTreeEntry[],
+    truncated: data.truncated === true,
+    etag: res.headers.get("ETag") ?? undefined,
+  };
+}
+
+/**
+ * Assemble a full tree when the recursive listing was truncated.
+ *
+ * Each subtree is first tried recursively (one request covers most
+ * folders); only subtrees that are themselves truncated are split further
+ * with a non-recursive listing. Paths are prefixed back to repo-relative.
+ */
+async function walkTruncatedTree(
+  owner: string,
+  repo: string,
+  rootSha: string,
+  token: string | undefined,
+  onProgress?: (progress: TreeProgress) => void,
+): Promise<GitTreeEntry[]> {
+  const entries: GitTreeEntry[] = [];
+  const pending: { sha: string; prefix: string }[] = [];
+  let done = 0;
+
+  // The root is known to be truncated, so start with its direct children
+  // Unconditional requests (no etag) always have a body
+  const top = (await fetchTreeListing(owner, repo, rootSha, false, token))!;
+  const enqueueChildren = (tree: GitTreeEntry[], prefix: string) => {
+    for (const entry of tree) {
+      const path = prefix ? `${prefix}/${entry.path}` : entry.path;
+      entries.push({ ...entry, path });
+      if (entry.type === "tree" && entry.sha) pending.push({ sha: entry.sha, prefix: path });
+    }
+  };
+  enqueueChildren(top.tree, "");
+  onProgress?.({ done, total: pending.length });
+
+  while (pending.length > 0) {
+    const { sha, prefix } = pending.shift()!;
+    const listing = (await fetchTreeListing(owner, repo, sha, true, token))!;
+
+    if (listing.truncated) {
+      const direct = (await fetchTreeListing(owner, repo, sha, false, token))!;
+      enqueueChildren(direct.tree, prefix);
+    } else {
+      for (const entry of listing.tree) {
+        entries.push({ ...entry, path: `${prefix}/${entry.path}` });
+      }
+    }
+
+    done++;
+    onProgress?.({ done, total: done + pending.length });
+  }
+
+  return entries;
+}
+
+/**
+ * Build the default headers for a GitHub API request.
+ */
+function githubHeaders(accept: string, token?: string): Record<string, string> {
+  const headers: Record<string, string> = { Accept: accept };
+
+  if (token) {
+    headers.Authorization = `token ${token}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Turn a failed response into a GitHubApiError with a readable message.
+ *
+ * GitHub answers 404 for private repos when the caller has no access, so
+ * that case points the user at token settings.
+ */
+async function toApiError(
+  res: Response,
+  label: string,
+  authenticated: boolean,
+): Promise<GitHubApiError> {
+  if (res.status === 404) {
+    return new GitHubApiError(
+      authenticated
+        ? "Not found (404). Check the URL and branch, and that your token has access to this repository."
+        : "Not found (404). If this repository is private, add a GitHub token with access to it in Settings.",
+      404,
+    );
+  }
+
+  if (res.status === 401) {
+    return new GitHubApiError(
+      "GitHub rejected the access token (401). Update or remove it in Settings.",
+      401,
+    );
+  }
+
+  const text = await res.text().catch(() => "");
+  return new GitHubApiError(
+    `${label} failed (${res.status} ${res.statusText}): ${text || "no body"}`,
+    res.status,
+  );
+}
+
+export function encodeRepoPath(path: string): string {
+  // Encode each path segment but preserve forward slashes so GitHub
+  // receives a path like "docs/intro.md" rather than "docs%2Fintro.md".
+  // First decode any existing encoding to prevent double-encoding.
+  return path
+    .split("/")
+    .map((segment) => encodeURIComponent(safeDecode(segment)))
+    .join("/");
+}
+
+/** decodeURIComponent that returns the text unchanged when it isn't valid percent-encoding. */
+export function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    // Not valid percent-encoding (e.g. a literal "%"), use as-is
+    return segment;
+  }
+}
+
 function stripExtension(name: string): string {
   // remove final extension like ".md", ".mdx", ".txt"
   return name.replace(/\.[^/.]+$/, "");
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { WIKILINK_RE, createNoteResolver, embedSize, noteHref, parseWikiLink, wikiLinkLabel } from "./wikilinks";
+
+describe("WIKILINK_RE", () => {
+  it("finds links and embeds on a line", () => {
+    const text = "See [[Linked Lists#Insertion|insertion]] and ![[diagram.png|400]], not [[broken\n]].";
+    expect([...text.matchAll(WIKILINK_RE)].map((match) => [match[1], match[2]])).toEqual([
+      ["", "Linked Lists#Insertion|insertion"],
+      ["!", "diagram.png|400"],
+    ]);
+  });
+});
+
+describe("parseWikiLink", () => {
+  it("splits target, heading and alias", () => {
+    expect(parseWikiLink("Linked Lists")).toEqual({ target: "Linked Lists" });
+    expect(parseWikiLink(" Week 2/Lists # Insertion | lists ")).toEqual({
+      target: "Week 2/Lists",
+      heading: "Insertion",
+      alias: "lists",
+    });
+  });
+
+  it("reads a bare heading as a link within the note", () => {
+    expect(parseWikiLink("#Summary")).toEqual({ target: "", heading: "Summary" });
+  });
+
+  it("drops an empty heading or alias", () => {
+    expect(parseWikiLink("Lists#|")).toEqual({ target: "Lists" });
+  });
+});
+
+describe("wikiLinkLabel", () => {
+  it("shows the alias, else the note name and heading", () => {
+    expect(wikiLinkLabel({ target: "Lists", alias: "lists" })).toBe("lists");
+    expect(wikiLinkLabel({ target: "Week 2/Lists", heading: "Insertion" })).toBe("Lists > Insertion");
+    expect(wikiLinkLabel({ target: "", heading: "Summary" })).toBe("Summary");
+  });
+});
+
+describe("createNoteResolver", () => {
+  const paths = [
+    "README.md",
+    "Week 2/Lists.md",
+    "Week 3/Lists.md",
+    "Week 3/Trees.md",
+    "archive/old/Trees.md",
+    "images/diagram.png",
+  ];
+  const resolver = createNoteResolver(paths, { aliases: { "Week 3/Trees.md": ["BST", "Binary trees"] } });
+
+  it("matches names case-insensitively, without the extension", () => {
+    expect(resolver.resolve("readme")).toBe("README.md");
+    expect(resolver.resolve("diagram.png")).toBe("images/diagram.png");
+  });
+
+  it("matches the end of a path", () => {
+    expect(resolver.resolve("week 2/lists")).toBe("Week 2/Lists.md");
+    expect(resolver.resolve("old/Trees")).toBe("archive/old/Trees.md");
+    expect(resolver.resolve("eek 2/Lists")).toBeNull();
+  });
+
+  it("prefers the linking note's folder, then the shallowest path", () => {
+    expect(resolver.resolve("Lists", "Week 3/Trees.md")).toBe("Week 3/Lists.md");
+    expect(resolver.resolve("Lists", "README.md")).toBe("Week 2/Lists.md");
+    expect(resolver.resolve("Trees", "archive/old/Trees.md")).toBe("archive/old/Trees.md");
+    expect(resolver.resolve("Trees")).toBe("Week 3/Trees.md");
+  });
+
+  it("falls back to frontmatter aliases", () => {
+    expect(resolver.resolve("binary trees")).toBe("Week 3/Trees.md");
+    expect(resolver.resolve("Missing")).toBeNull();
+    expect(resolver.resolve("")).toBeNull();
+  });
+
+  it("resolves paths relative to the mounted folder", () => {
+    const scoped = createNoteResolver(["courses/cs/Week 2/Lists.md"], { rootPath: "/courses/cs/" });
+    expect(scoped.resolve("/Week 2/Lists")).toBe("courses/cs/Week 2/Lists.md");
+  });
+});
+
+describe("embedSize", () => {
+  it("reads a width, or width and height", () => {
+    expect(embedSize("400")).toEqual({ width: 400 });
+    expect(embedSize("400x300")).toEqual({ width: 400, height: 300 });
+    expect(embedSize("a caption")).toBeNull();
+    expect(embedSize(undefined)).toBeNull();
+  });
+});
+
+describe("noteHref", () => {
+  it("encodes the path and slugs the heading", () => {
+    expect(noteHref("Week 2/Lists.md", "Doubly Linked Lists")).toBe("/notes/Week%202/Lists.md#doubly-linked-lists");
+  });
+});
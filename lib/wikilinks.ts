@@ -0,0 +1,176 @@
+/**
+ * Obsidian-style wikilinks
+ *
+ *   [[Note Name]]            link to a note anywhere in the repo
+ *   [[Folder/Note Name]]     the same, when the name alone is ambiguous
+ *   [[Note Name#Heading]]    link to a heading
+ *   [[Note Name|shown text]] link with different text
+ *   ![[Note Name]]           show the note (or `#Heading` section) inline
+ *   ![[diagram.png|400]]     show an image, optionally sized ("400x300")
+ *
+ * Like Obsidian, a target is matched against the end of note paths
+ * ("shortest unique path"), case-insensitively and without the `.md`
+ * extension. When several notes match, the one in the linking note's
+ * folder wins, then the one closest to the root.
+ */
+
+import { headingSlug } from "./headings";
+import { encodeRepoPath, normalizeRootPath, type NavItem } from "./utils";
+
+// ─── Constants ─────────────────────────────────────────────────
+
+/** `[[…]]`, optionally preceded by `!` (an embed). */
+export const WIKILINK_RE = /(!?)\[\[([^[\]\n]+?)\]\]/g;
+
+const IMAGE_RE = /\.(png|jpe?g|gif|svg|webp|bmp|ico|tiff?|avif|apng|jfif|pjpeg|pjp)$/i;
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface WikiLink {
+  /** Note (or file) name or path, e.g. "Linked Lists" */
+  target: string;
+  /** Heading after "#", e.g. "Insertion" */
+  heading?: string;
+  /** Text after "|", e.g. "lists" */
+  alias?: string;
+}
+
+/** Resolves wikilink targets to repository paths. */
+export interface NoteResolver {
+  /** Path of the note `target` refers to, as seen from the note at `from` */
+  resolve(target: string, from?: string): string | null;
+}
+
+// ─── Parsing ───────────────────────────────────────────────────
+
+/** Split the inside of `[[…]]` into target, heading and alias. */
+export function parseWikiLink(inner: string): WikiLink {
+  const pipe = inner.indexOf("|");
+  const link = pipe === -1 ? inner : inner.slice(0, pipe);
+  const alias = pipe === -1 ? undefined : inner.slice(pipe + 1).trim() || undefined;
+
+  const hash = link.indexOf("#");
+  const target = (hash === -1 ? link : link.slice(0, hash)).trim();
+  const heading = hash === -1 ? undefined : link.slice(hash + 1).trim() || undefined;
+
+  return { target, ...(heading && { heading }), ...(alias && { alias }) };
+}
+
+/** Text shown for a wikilink: its alias, else "Note > Heading". */
+export function wikiLinkLabel(link: WikiLink): string {
+  if (link.alias) return link.alias;
+  const name = link.target.split("/").pop() ?? link.target;
+  return link.heading ? (name ? `${name} > ${link.heading}` : link.heading) : name;
+}
+
+// ─── Resolution ────────────────────────────────────────────────
+
+/**
+ * Resolver over a repo's file paths. `aliases` (frontmatter aliases by
+ * note path) are tried when no file name matches.
+ */
+export function createNoteResolver(
+  paths: string[],
+  options: { rootPath?: string; aliases?: Record<string, string[]> } = {},
+): NoteResolver {
+  const root = normalizeRootPath(options.rootPath);
+
+  // Paths by lowercase file name, for the common "[[Name]]" case
+  const byName = new Map<string, string[]>();
+  for (const path of paths) {
+    const name = fileName(path).toLowerCase();
+    byName.set(name, [...(byName.get(name) ?? []), path]);
+  }
+
+  const byAlias = new Map<string, string>();
+  for (const [path, aliases] of Object.entries(options.aliases ?? {})) {
+    for (const alias of aliases) {
+      if (!byAlias.has(alias.toLowerCase())) byAlias.set(alias.toLowerCase(), path);
+    }
+  }
+
+  return {
+    resolve(target, from) {
+      const wanted = withExtension(target.trim().replace(/^\/+/, "")).toLowerCase();
+      if (!wanted || wanted === ".md") return null;
+
+      const candidates = (byName.get(fileName(wanted)) ?? []).filter((path) => {
+        const lower = path.toLowerCase();
+        const relative = root && lower.startsWith(`${root.toLowerCase()}/`)
+          ? lower.slice(root.length + 1)
+          : lower;
+        return relative === wanted || lower === wanted || lower.endsWith(`/${wanted}`);
+      });
+
+      if (candidates.length > 0) return closest(candidates, from);
+      return byAlias.get(target.trim().toLowerCase()) ?? null;
+    },
+  };
+}
+
+/** Whether a path is an image, which `![[…]]` shows instead of embedding. */
+export function isImagePath(path: string): boolean {
+  return IMAGE_RE.test(path);
+}
+
+/** Size from an image embed's alias: "400" (width) or "400x300". */
+export function embedSize(alias: string | undefined): { width: number; height?: number } | null {
+  const match = alias?.match(/^(\d+)(?:x(\d+))?$/);
+  if (!match) return null;
+  return { width: Number(match[1]), ...(match[2] && { height: Number(match[2]) }) };
+}
+
+/** Every file path in a sidebar tree; wikilinks resolve against these. */
+export function sidebarPaths(items: NavItem[] | undefined): string[] {
+  return (items ?? []).flatMap((item) => (item.items ? sidebarPaths(item.items) : [item.url]));
+}
+
+/** App route of a resolved note, with a heading anchor if given. */
+export function noteHref(path: string, heading?: string): string {
+  return `/notes/${encodeRepoPath(path)}${heading ? `#${headingSlug(heading)}` : ""}`;
+}
+
+/** Note path and `#anchor` of a `noteHref` route, or null for any other href. */
+export function parseNoteHref(href: string): { path: string; hash?: string } | null {
+  const match = /^\/notes\/([^#?]+)(?:#(.+))?$/.exec(href);
+  if (!match) return null;
+  try {
+    return { path: decodeURIComponent(match[1]), ...(match[2] && { hash: decodeURIComponent(match[2]) }) };
+  } catch {
+    return null;
+  }
+}
+
+/** App route of a repo file that isn't a note (see `FileViewer`). */
+export function fileHref(path: string): string {
+  return `/files/${encodeRepoPath(path)}`;
+}
+
+/** App route of any repo path: notes open as notes, other files in the file viewer. */
+export function repoPathHref(path: string, heading?: string): string {
+  return /\.md$/i.test(path) ? noteHref(path, heading) : fileHref(path);
+}
+
+/* Helpers */
+
+function fileName(path: string): string {
+  return path.split("/").pop() ?? path;
+}
+
+// Targets without an extension are notes
+function withExtension(target: string): string {
+  return /\.[a-z0-9]+$/i.test(fileName(target)) ? target : `${target}.md`;
+}
+
+// Same folder as the linking note first, then shallowest, then alphabetical
+function closest(candidates: string[], from?: string): string {
+  const folder = from?.includes("/") ? from.slice(0, from.lastIndexOf("/")) : "";
+  const inFolder = (path: string) => path.slice(0, Math.max(path.lastIndexOf("/"), 0)) === folder;
+
+  return [...candidates].sort(
+    (a, b) =>
+      Number(inFolder(b)) - Number(inFolder(a)) ||
+      a.split("/").length - b.split("/").length ||
+      a.localeCompare(b),
+  )[0];
+}
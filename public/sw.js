@@ -0,0 +1,176 @@
+/**
+ * DocuRepo service worker
+ *
+ * - App shell and Next.js static assets: cache-first
+ * - Page navigations: network-first, falling back to cached pages offline
+ * - Repo images (raw.githubusercontent.com): stale-while-revalidate
+ * - RSC payloads are never cached; failing them offline makes Next.js fall
+ *   back to a full navigation, which is then served from the page cache.
+ *
+ * Note and deck contents live in IndexedDB (lib/content-cache.ts), not here.
+ */
+
+// Bump whenever SHELL_URLS or the caching rules change, so installed
+// copies drop their old caches
+const VERSION = "v2";
+const SHELL_CACHE = `docurepo-shell-${VERSION}`;
+const PAGE_CACHE = `docurepo-pages-${VERSION}`;
+const IMAGE_CACHE = `docurepo-images-${VERSION}`;
+
+const SHELL_URLS = ["/", "/flashcards", "/flashcards/play", "/tags", "/graph", "/manifest.webmanifest"];
+
+// ─── Lifecycle ─────────────────────────────────────────────────
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precachePages(SHELL_URLS, SHELL_CACHE).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  const current = new Set([SHELL_CACHE, PAGE_CACHE, IMAGE_CACHE]);
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("docurepo-") && !current.has(key))
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+// ─── Messages ──────────────────────────────────────────────────
+// { type: "precache", urls: string[] } — store pages (and their static
+// assets) so they can be opened offline. Replies { type: "precache-done" }.
+
+self.addEventListener("message", (event) => {
+  const data = event.data;
+  if (!data || data.type !== "precache" || !Array.isArray(data.urls)) return;
+
+  event.waitUntil(
+    precachePages(data.urls, PAGE_CACHE).then((count) => {
+      event.source?.postMessage({ type: "precache-done", count });
+    }),
+  );
+});
+
+// ─── Fetch ─────────────────────────────────────────────────────
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (url.hostname === "raw.githubusercontent.com") {
+    event.respondWith(staleWhileRevalidate(request, IMAGE_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (request.headers.get("RSC") === "1") {
+    event.respondWith(fetch(request).catch(() => Response.error()));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  }
+});
+
+// ─── Strategies ────────────────────────────────────────────────
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+
+  const network = fetch(request)
+    .then((response) => {
+      // <img> requests are no-cors, so their responses are opaque
+      if (response.ok || response.type === "opaque") cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+
+  return cached || network;
+}
+
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(PAGE_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    // Client-rendered routes (e.g. /flashcards?path=…) share one HTML
+    // document, so fall back to a match that ignores the query string.
+    return (
+      (await caches.match(request)) ||
+      (await caches.match(request, { ignoreSearch: true })) ||
+      (await caches.match("/")) ||
+      Response.error()
+    );
+  }
+}
+
+// ─── Precache ──────────────────────────────────────────────────
+
+const STATIC_ASSET_PATTERN = /\/_next\/static\/[^"'\s)\\]+/g;
+
+/**
+ * Fetch and cache pages plus every static asset their HTML references,
+ * so routes that were never visited still hydrate offline.
+ */
+async function precachePages(urls, cacheName) {
+  const pageCache = await caches.open(cacheName);
+  const shellCache = await caches.open(SHELL_CACHE);
+  let count = 0;
+
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, { credentials: "same-origin" });
+      if (!response.ok) continue;
+
+      const html = await response.clone().text();
+      await pageCache.put(url, response);
+      count++;
+
+      const assets = new Set(html.match(STATIC_ASSET_PATTERN) || []);
+      for (const asset of assets) {
+        if (await shellCache.match(asset)) continue;
+        try {
+          const assetResponse = await fetch(asset);
+          if (assetResponse.ok) await shellCache.put(asset, assetResponse);
+        } catch {
+          // Skip assets that fail; the page may still partly work
+        }
+      }
+    } catch {
+      // Offline or failed — skip this page
+    }
+  }
+
+  return count;
+}
@@ -0,0 +1,20 @@
+// File System Access API members not yet in TypeScript's DOM lib
+// (Chromium only; feature-detect `showDirectoryPicker` before use).
+
+type FileSystemPermissionMode = "read" | "readwrite";
+
+interface FileSystemHandle {
+  queryPermission?(descriptor?: { mode?: FileSystemPermissionMode }): Promise<PermissionState>;
+  requestPermission?(descriptor?: { mode?: FileSystemPermissionMode }): Promise<PermissionState>;
+}
+
+interface FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<FileSystemDirectoryHandle | FileSystemFileHandle>;
+}
+
+interface Window {
+  showDirectoryPicker?(options?: {
+    id?: string;
+    mode?: FileSystemPermissionMode;
+  }): Promise<FileSystemDirectoryHandle>;
+}
@@ -0,0 +1 @@
+declare module "katex/contrib/copy-tex";